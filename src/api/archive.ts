@@ -0,0 +1,248 @@
+/**
+ * Dataset archives
+ * Exports the records and live field configuration of a dataset to a directory, and reads
+ * such an archive back as a DatasetConfig that the load workflow can restore
+ *
+ * Layout:
+ *   <dir>/archive.json      - metadata and the dataset config (field settings as on the server)
+ *   <dir>/records.ndjson.gz - one record per line, as returned by GetJson
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DatasetConfig, SearchableField, Weight } from '../config/dataset-config.js';
+import { validateDatasetConfig } from '../config/config-schema.js';
+import { readRecords } from '../data/record-reader.js';
+import { IndxClient } from './indx-client.js';
+import { LiveFieldConfiguration, getLiveFieldConfiguration } from './field-plan.js';
+
+export const ARCHIVE_FORMAT = 'indx-dataset-archive';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_FILE = 'archive.json';
+export const RECORDS_FILE = 'records.ndjson.gz';
+
+export const DEFAULT_EXPORT_BATCH_SIZE = 1000;
+export const DEFAULT_MAX_KEY_GAP = 100_000;
+
+/**
+ * Contents of archive.json
+ */
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  /** Dataset name in the archived config */
+  dataset: string;
+  /** Name on the server when exported; differs from `dataset` for blue/green versions */
+  exportedFrom: string;
+  exportedAt: string;
+  /** API the dataset was exported from */
+  source: string;
+  /** Records the server reported, and records written to the archive */
+  expectedRecords: number;
+  recordCount: number;
+  /** False when the server only reported searchable field names and the weights were guessed */
+  weightsKnown: boolean;
+  /** Dataset config in config-file form, with filePath pointing at the records file */
+  config: Record<string, unknown>;
+}
+
+export interface ExportOptions {
+  /** Dataset name in the archived config (default: the name on the server) */
+  name?: string;
+  /** Document keys requested per GetJson call (default 1000) */
+  batchSize?: number;
+  /** Stop scanning after this many consecutive unused keys (default 100,000) */
+  maxKeyGap?: number;
+  /** Searchable weights to use when the server does not report them, e.g. from the local config */
+  weights?: SearchableField[];
+  /** testQuery for the archived config (default: the first word of the first searchable value) */
+  testQuery?: string;
+  /** Recorded as the archive's source */
+  source?: string;
+  onProgress?: (found: number, expected: number, scannedKeys: number) => void;
+}
+
+export interface ExportResult {
+  manifest: ArchiveManifest;
+  archiveDir: string;
+  /** Document keys scanned, from 0 */
+  scannedKeys: number;
+}
+
+/**
+ * Read every record of a dataset by scanning document keys from 0
+ * The API cannot list keys, so keys are requested in batches until the server's record count
+ * is reached or `maxKeyGap` keys in a row were unused.
+ */
+export async function* scanRecords(
+  client: IndxClient,
+  dataSetName: string,
+  expected: number,
+  options: Pick<ExportOptions, 'batchSize' | 'maxKeyGap'> & { onBatch?: (found: number, scannedKeys: number) => void } = {}
+): AsyncGenerator<string> {
+  const batchSize = options.batchSize ?? DEFAULT_EXPORT_BATCH_SIZE;
+  const maxKeyGap = options.maxKeyGap ?? DEFAULT_MAX_KEY_GAP;
+  let found = 0;
+  let gap = 0;
+  let next = 0;
+
+  while (found < expected && gap < maxKeyGap) {
+    const keys = Array.from({ length: batchSize }, (_, idx) => next + idx);
+    next += batchSize;
+
+    const records = await client.getJson(dataSetName, keys);
+    for (const json of records) {
+      if (json) {
+        found++;
+        gap = 0;
+        yield json;
+      } else {
+        gap++;
+      }
+    }
+    options.onBatch?.(found, next);
+  }
+}
+
+/**
+ * Build the archived config from the live field configuration
+ */
+function archiveConfig(
+  dataset: string,
+  live: LiveFieldConfiguration,
+  options: ExportOptions,
+  testQuery: string
+): { config: Record<string, unknown>; weightsKnown: boolean } {
+  const weightsKnown = live.searchable.every(f => f.weight !== undefined);
+  const weightOf = (field: { name: string; weight?: number }): number =>
+    field.weight ?? options.weights?.find(w => w.name === field.name)?.weight ?? Weight.Med;
+
+  return {
+    weightsKnown,
+    config: {
+      name: dataset,
+      filePath: RECORDS_FILE,
+      input: { format: 'ndjson', compression: 'gzip' },
+      // Weights by name, like a hand-written config
+      searchableFields: live.searchable.map(f => ({ name: f.name, weight: Weight[weightOf(f)] })),
+      wordIndexingFields: live.wordIndexing,
+      filterableFields: live.filterable,
+      facetableFields: live.facetable,
+      sortableFields: live.sortable,
+      testQuery
+    }
+  };
+}
+
+/**
+ * First word of the first searchable value in a record, to use as the archive's test query
+ */
+function firstWord(json: string, fields: string[]): string | undefined {
+  const record = JSON.parse(json) as Record<string, unknown>;
+  for (const field of fields) {
+    const value = record[field];
+    const text = Array.isArray(value) ? value.find(v => typeof v === 'string') : value;
+    if (typeof text === 'string' && text.trim() !== '') {
+      return text.trim().split(/\s+/)[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Export a dataset to an archive directory
+ * The directory is created; existing archive files in it are overwritten.
+ */
+export async function exportDataset(client: IndxClient, dataSetName: string, archiveDir: string, options: ExportOptions = {}): Promise<ExportResult> {
+  const expected = await client.getNumberOfJsonRecordsInDb(dataSetName);
+  const live = await getLiveFieldConfiguration(client, dataSetName);
+  const searchable = live.searchable.map(f => f.name);
+
+  fs.mkdirSync(archiveDir, { recursive: true });
+  let recordCount = 0;
+  let scannedKeys = 0;
+  let testQuery = options.testQuery;
+
+  const records = scanRecords(client, dataSetName, expected, {
+    ...options,
+    onBatch: (found, scanned) => {
+      scannedKeys = scanned;
+      options.onProgress?.(found, expected, scanned);
+    }
+  });
+  const lines = async function* (): AsyncGenerator<string> {
+    for await (const json of records) {
+      testQuery ??= firstWord(json, searchable);
+      recordCount++;
+      // GetJson returns records as they were loaded; one line each for NDJSON
+      yield `${JSON.stringify(JSON.parse(json))}\n`;
+    }
+  };
+  await pipeline(Readable.from(lines()), zlib.createGzip(), fs.createWriteStream(path.join(archiveDir, RECORDS_FILE)));
+
+  const name = options.name ?? dataSetName;
+  const { config, weightsKnown } = archiveConfig(name, live, options, testQuery ?? '*');
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    dataset: name,
+    exportedFrom: dataSetName,
+    exportedAt: new Date().toISOString(),
+    source: options.source ?? '',
+    expectedRecords: expected,
+    recordCount,
+    weightsKnown,
+    config
+  };
+  fs.writeFileSync(path.join(archiveDir, ARCHIVE_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+
+  return { manifest, archiveDir, scannedKeys };
+}
+
+/**
+ * Read an archive directory (or its archive.json) as a config that loads the archived records
+ * Throws ConfigValidationError when the archived config is invalid.
+ */
+export function readArchive(archivePath: string): { manifest: ArchiveManifest; config: DatasetConfig } {
+  const file = path.basename(archivePath) === ARCHIVE_FILE ? archivePath : path.join(archivePath, ARCHIVE_FILE);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Not a dataset archive: ${file} not found`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(file, 'utf-8')) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error(`Not a dataset archive: ${file}`);
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`${file} is archive version ${manifest.version}; this loader reads up to version ${ARCHIVE_VERSION}`);
+  }
+
+  const config = validateDatasetConfig(manifest.config, file, manifest.dataset);
+  // The records file lives next to archive.json, wherever the archive was moved
+  config.filePath = path.join(path.dirname(file), config.filePath);
+  return { manifest, config };
+}
+
+/**
+ * Read every record of an archive, so a damaged archive is found before anything on the server changes
+ * Throws when the records file is missing or unreadable, or holds another number of records than archive.json lists.
+ */
+export async function verifyArchive(manifest: ArchiveManifest, config: DatasetConfig): Promise<void> {
+  if (!fs.existsSync(config.filePath)) {
+    throw new Error(`Damaged archive: ${config.filePath} not found`);
+  }
+
+  let recordCount = 0;
+  try {
+    for await (const _record of readRecords(config.filePath, config.input)) {
+      recordCount++;
+    }
+  } catch (error: any) {
+    throw new Error(`Damaged archive: ${error.message}`, { cause: error });
+  }
+  if (recordCount !== manifest.recordCount) {
+    throw new Error(`Damaged archive: ${config.filePath} holds ${recordCount.toLocaleString()} records, archive.json lists ${manifest.recordCount.toLocaleString()}`);
+  }
+}
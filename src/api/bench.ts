@@ -0,0 +1,299 @@
+/**
+ * Search latency benchmark
+ * Replays queries against search() from concurrent workers for a fixed time and reports
+ * throughput and latency percentiles, split by whether facets and boosts are enabled
+ */
+import * as fs from 'fs';
+import { CloudQuery } from '@indxsearch/indx-types';
+import { DataRecord } from '../data/record-reader.js';
+import { IndxAuthError } from './errors.js';
+import { IndxClient } from './indx-client.js';
+
+/**
+ * Query settings a benchmark request runs with
+ */
+export type BenchMode = 'plain' | 'facets' | 'boost' | 'facets+boost';
+
+export const BENCH_MODES: BenchMode[] = ['plain', 'facets', 'boost', 'facets+boost'];
+
+export interface BenchOptions {
+  /** Requests in flight at any time (default 4) */
+  concurrency?: number;
+  /** How long to keep sending requests, in seconds (default 10) */
+  durationSeconds?: number;
+  /** maxNumberOfRecordsToReturn for every query (default 10) */
+  maxResults?: number;
+  /** Modes to cycle through; every query runs in each of them (default all) */
+  modes?: BenchMode[];
+  /** Called about once a second while the benchmark runs */
+  onProgress?: (progress: BenchProgress) => void;
+}
+
+export interface BenchProgress {
+  elapsedSeconds: number;
+  requests: number;
+  errors: number;
+}
+
+export interface LatencyStats {
+  /** Requests that completed, including failed ones */
+  requests: number;
+  errors: number;
+  /** Successful requests per second */
+  throughput: number;
+  /** Latencies of the successful requests, in milliseconds */
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Result of a benchmark run, as saved with --save
+ */
+export interface BenchResult {
+  dataset: string;
+  startedAt: string;
+  /** Where the queries came from: a query file, or the data file they were generated from */
+  source: string;
+  queryCount: number;
+  concurrency: number;
+  maxResults: number;
+  /** Wall time from the first request to the last response */
+  elapsedSeconds: number;
+  overall: LatencyStats;
+  modes: Partial<Record<BenchMode, LatencyStats>>;
+  /** Message of the first failed request, when any failed */
+  firstError?: string;
+}
+
+/**
+ * Change of one metric between two runs
+ */
+export interface BenchDelta {
+  /** "overall" or a mode */
+  scope: string;
+  metric: 'throughput' | 'p50' | 'p95' | 'p99';
+  baseline: number;
+  current: number;
+  /** Relative change in percent; positive means the metric went up */
+  changePercent: number;
+  /** Lower throughput or higher latency */
+  worse: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_DURATION_SECONDS = 10;
+const DEFAULT_MAX_RESULTS = 10;
+
+// Longest generated query, in words
+const GENERATED_QUERY_WORDS = 3;
+
+/**
+ * Read a query file: a JSON array of strings, or plain text with one query per line
+ * Blank lines and lines starting with # are skipped.
+ */
+export function readQueryFile(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let queries: unknown[];
+  if (filePath.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${filePath} must contain a JSON array of query strings`);
+    }
+    queries = parsed;
+  } else {
+    queries = content.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '' && !line.startsWith('#'));
+  }
+
+  const invalid = queries.findIndex(q => typeof q !== 'string' || q.trim() === '');
+  if (invalid !== -1) {
+    throw new Error(`${filePath}: query ${invalid + 1} is not a non-empty string`);
+  }
+  if (queries.length === 0) {
+    throw new Error(`${filePath} contains no queries`);
+  }
+  return queries as string[];
+}
+
+/**
+ * Generate up to `count` distinct queries from the values of the given fields
+ * Each query is the first few words of a string value, so it resembles what a user would type.
+ */
+export async function generateQueries(records: AsyncIterable<DataRecord>, fields: string[], count: number): Promise<string[]> {
+  const queries = new Set<string>();
+  for await (const record of records) {
+    for (const field of fields) {
+      const value = record[field];
+      const text = Array.isArray(value) ? value.find(v => typeof v === 'string') : value;
+      if (typeof text !== 'string') continue;
+
+      const query = text.trim().split(/\s+/).slice(0, GENERATED_QUERY_WORDS).join(' ');
+      if (query !== '') {
+        queries.add(query);
+      }
+      if (queries.size >= count) {
+        return [...queries];
+      }
+    }
+  }
+  return [...queries];
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function latencyStats(latencies: number[], errors: number, elapsedSeconds: number): LatencyStats {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    requests: latencies.length + errors,
+    errors,
+    throughput: elapsedSeconds > 0 ? latencies.length / elapsedSeconds : 0,
+    mean: sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+}
+
+/**
+ * Run the benchmark
+ * Request n runs query n / modes in mode n % modes, so each query is measured in every mode.
+ * Failed requests are counted, not retried; an authentication failure stops the run.
+ */
+export async function runBenchmark(
+  client: IndxClient,
+  dataset: string,
+  queries: string[],
+  source: string,
+  options: BenchOptions = {}
+): Promise<BenchResult> {
+  if (queries.length === 0) {
+    throw new Error('No queries to run');
+  }
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const durationMs = (options.durationSeconds ?? DEFAULT_DURATION_SECONDS) * 1000;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const modes = options.modes ?? BENCH_MODES;
+
+  const latencies = new Map<BenchMode, number[]>(modes.map(m => [m, []]));
+  const errors = new Map<BenchMode, number>(modes.map(m => [m, 0]));
+  let firstError: string | undefined;
+  let next = 0;
+  let completed = 0;
+  let failed = 0;
+
+  const startedAt = new Date().toISOString();
+  const start = performance.now();
+  const deadline = start + durationMs;
+
+  const worker = async (): Promise<void> => {
+    while (performance.now() < deadline) {
+      const n = next++;
+      const mode = modes[n % modes.length];
+      const query: CloudQuery = {
+        text: queries[Math.floor(n / modes.length) % queries.length],
+        maxNumberOfRecordsToReturn: maxResults,
+        sortBy: '',
+        enableFacets: mode === 'facets' || mode === 'facets+boost',
+        enableBoost: mode === 'boost' || mode === 'facets+boost'
+      };
+
+      const sent = performance.now();
+      try {
+        await client.search(query, dataset);
+        latencies.get(mode)!.push(performance.now() - sent);
+      } catch (error: any) {
+        if (error instanceof IndxAuthError) {
+          throw error;
+        }
+        errors.set(mode, errors.get(mode)! + 1);
+        failed++;
+        firstError ??= error.message;
+      }
+      completed++;
+    }
+  };
+
+  const timer = options.onProgress
+    ? setInterval(() => options.onProgress!({
+      elapsedSeconds: (performance.now() - start) / 1000,
+      requests: completed,
+      errors: failed
+    }), 1000)
+    : undefined;
+  try {
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } finally {
+    clearInterval(timer);
+  }
+
+  const elapsedSeconds = (performance.now() - start) / 1000;
+  const result: BenchResult = {
+    dataset,
+    startedAt,
+    source,
+    queryCount: queries.length,
+    concurrency,
+    maxResults,
+    elapsedSeconds,
+    overall: latencyStats([...latencies.values()].flat(), failed, elapsedSeconds),
+    modes: {}
+  };
+  for (const mode of modes) {
+    result.modes[mode] = latencyStats(latencies.get(mode)!, errors.get(mode)!, elapsedSeconds);
+  }
+  if (firstError !== undefined) {
+    result.firstError = firstError;
+  }
+  return result;
+}
+
+/**
+ * Read a result saved with --save
+ */
+export function readBenchResult(filePath: string): BenchResult {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (typeof parsed !== 'object' || parsed === null || !parsed.overall || !parsed.modes) {
+    throw new Error(`${filePath} is not a saved benchmark result`);
+  }
+  return parsed as BenchResult;
+}
+
+export function writeBenchResult(filePath: string, result: BenchResult): void {
+  fs.writeFileSync(filePath, JSON.stringify(result, null, 2), 'utf-8');
+}
+
+/**
+ * Compare throughput and latency percentiles of two runs, overall and for the modes both ran
+ */
+export function compareBenchResults(baseline: BenchResult, current: BenchResult): BenchDelta[] {
+  const scopes: [string, LatencyStats | undefined, LatencyStats | undefined][] = [
+    ['overall', baseline.overall, current.overall],
+    ...BENCH_MODES.map(mode => [mode, baseline.modes[mode], current.modes[mode]] as [string, LatencyStats | undefined, LatencyStats | undefined])
+  ];
+
+  const deltas: BenchDelta[] = [];
+  for (const [scope, before, after] of scopes) {
+    if (!before || !after) continue;
+    for (const metric of ['throughput', 'p50', 'p95', 'p99'] as const) {
+      const changePercent = before[metric] > 0 ? ((after[metric] - before[metric]) / before[metric]) * 100 : 0;
+      deltas.push({
+        scope,
+        metric,
+        baseline: before[metric],
+        current: after[metric],
+        changePercent,
+        worse: metric === 'throughput' ? changePercent < 0 : changePercent > 0
+      });
+    }
+  }
+  return deltas;
+}
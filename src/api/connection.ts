@@ -0,0 +1,250 @@
+/**
+ * Connection setup for IndxCloudApi
+ * Reads a server profile, .env.local or another dotenv file and creates an authenticated IndxClient
+ */
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import dotenv from 'dotenv';
+import axios from 'axios';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { Profile, TlsOptions, activeProfile, isEnvFile, profilesPath, readProfiles } from '../config/profiles.js';
+import { setBearerToken, login, enableTokenRefresh, tokenExpiry } from '../utils/auth.js';
+import { readCachedToken, writeCachedToken } from '../utils/token-cache.js';
+import { IndxClient, IndxClientOptions } from './indx-client.js';
+import { createTransport } from './transport.js';
+import { RetryOptions } from './retry.js';
+import { IndxAuthError } from './errors.js';
+
+export interface Connection {
+  client: IndxClient;
+  uri: string;
+}
+
+/**
+ * Server address and credentials, as read from API_URI, BEARER_TOKEN, USER_EMAIL and USER_PASSWORD
+ */
+export interface ConnectionSettings {
+  uri: string;
+  bearerToken: string;
+  userEmail: string;
+  userPassword: string;
+  /** Where the settings were read from, for error messages */
+  source: string;
+  /** Profile the settings came from; unset for dotenv files */
+  profile?: string;
+  tls?: TlsOptions;
+}
+
+const DEFAULT_API_URI = 'https://localhost:5001/';
+
+// Warn when a BEARER_TOKEN that cannot be renewed expires within this many minutes
+const EXPIRY_WARNING_MINUTES = 60;
+
+/**
+ * Get the API URI from environment variables
+ */
+export function getApiUri(): string {
+  return process.env.API_URI || DEFAULT_API_URI;
+}
+
+/**
+ * Read connection settings from a dotenv file
+ * Without a file, .env.local is loaded into the environment and the environment is used,
+ * so variables set in the shell win. A given file is read on its own and does not touch the environment.
+ */
+export function readConnectionSettings(envFile?: string): ConnectionSettings {
+  let vars: Record<string, string | undefined>;
+  if (envFile) {
+    if (!fs.existsSync(envFile)) {
+      throw new Error(`Env file not found: ${envFile}`);
+    }
+    vars = dotenv.parse(fs.readFileSync(envFile));
+  } else {
+    dotenv.config({ path: '.env.local' });
+    vars = process.env;
+  }
+
+  return {
+    uri: vars.API_URI || DEFAULT_API_URI,
+    bearerToken: vars.BEARER_TOKEN || '',
+    userEmail: vars.USER_EMAIL || '',
+    userPassword: vars.USER_PASSWORD || '',
+    source: envFile ?? '.env.local',
+    tls: {
+      caFile: vars.API_CA_FILE || undefined,
+      certFile: vars.API_CLIENT_CERT || undefined,
+      keyFile: vars.API_CLIENT_KEY || undefined,
+      insecure: vars.API_INSECURE ? ['1', 'true', 'yes'].includes(vars.API_INSECURE.toLowerCase()) : undefined
+    }
+  };
+}
+
+/**
+ * Connection settings of a profile
+ * Throws when the profile reads a credential from an environment variable that is not set.
+ */
+export function profileSettings(name: string, profile: Profile): ConnectionSettings {
+  const fromEnv = (variable: string | undefined, what: string): string | undefined => {
+    if (variable === undefined) {
+      return undefined;
+    }
+    const value = process.env[variable];
+    if (!value) {
+      throw new IndxAuthError(`Profile "${name}" reads its ${what} from ${variable}, which is not set`, 'api/login');
+    }
+    return value;
+  };
+
+  const token = profile.auth === 'token';
+  return {
+    uri: profile.uri,
+    bearerToken: token ? fromEnv(profile.bearerTokenEnv, 'bearer token') ?? profile.bearerToken ?? '' : '',
+    userEmail: token ? '' : profile.userEmail ?? '',
+    userPassword: token ? '' : fromEnv(profile.userPasswordEnv, 'password') ?? profile.userPassword ?? '',
+    source: `profile "${name}" (${profilesPath()})`,
+    profile: name,
+    tls: profile.tls
+  };
+}
+
+/**
+ * Connection settings for a profile name or a dotenv file
+ * Without either, the active profile (INDX_ENV or the default profile) is used, or .env.local when there is none.
+ */
+export function connectionSettingsFor(env?: string): ConnectionSettings {
+  const profiles = readProfiles();
+  if (isEnvFile(env, profiles)) {
+    return readConnectionSettings(env);
+  }
+  const active = activeProfile(env, profiles);
+  return active ? profileSettings(active.name, active.profile) : readConnectionSettings();
+}
+
+/**
+ * Key of the token cache for a server: its profile, or a hash of server and user for dotenv files
+ */
+function tokenCacheKey(settings: ConnectionSettings): string {
+  if (settings.profile) {
+    return settings.profile;
+  }
+  return `env-${createHash('sha256').update(`${settings.uri}\n${settings.userEmail}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Warn about a BEARER_TOKEN that has expired or is about to
+ * Returns the token to use: an expired one is dropped when email and password can replace it.
+ */
+function checkBearerToken(token: string, canLogin: boolean): string {
+  const expiry = tokenExpiry(token);
+  if (expiry === null) {
+    return token;
+  }
+
+  const minutesLeft = Math.floor((expiry.getTime() - Date.now()) / 60_000);
+  if (minutesLeft < 0) {
+    if (canLogin) {
+      ConsoleHelper.writeWarning(`BEARER_TOKEN expired at ${expiry.toISOString()}; logging in with USER_EMAIL instead`);
+      return '';
+    }
+    ConsoleHelper.writeWarning(`BEARER_TOKEN expired at ${expiry.toISOString()}; the server will reject it. Generate a new API key, or set USER_EMAIL and USER_PASSWORD`);
+  } else if (minutesLeft < EXPIRY_WARNING_MINUTES && !canLogin) {
+    ConsoleHelper.writeWarning(`BEARER_TOKEN expires in ${minutesLeft} minute(s); a long load may fail partway (set USER_EMAIL and USER_PASSWORD to renew it automatically)`);
+  }
+  return token;
+}
+
+/**
+ * Explain what --insecure gives up, every time it is used
+ */
+function warnInsecure(uri: string): void {
+  ConsoleHelper.writeWarning(`TLS CERTIFICATE VERIFICATION IS DISABLED for ${uri}`);
+  ConsoleHelper.writeWarning('Anyone on the network path can impersonate the server and read or change the traffic, including credentials.');
+  ConsoleHelper.writeWarning('Trust the server\'s CA with --ca <file> instead of using --insecure.');
+}
+
+/**
+ * Retry policy that logs every retry (and every transient failure that is not retried) as a warning
+ */
+export function consoleRetryOptions(retries?: number): RetryOptions {
+  return {
+    retries,
+    onRetry: ({ method, route, attempt, maxAttempts, delayMs, error }) => {
+      ConsoleHelper.writeWarning(
+        `${method} ${route} failed (${error.status ? `HTTP ${error.status}` : error.message}), ` +
+        `retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxAttempts})`
+      );
+    },
+    onNotRetried: ({ method, route }) => {
+      ConsoleHelper.writeWarning(`${method} ${route} is not idempotent and was not retried`);
+    }
+  };
+}
+
+/**
+ * Create an authenticated IndxClient using BEARER_TOKEN or USER_EMAIL/USER_PASSWORD
+ * Throws IndxAuthError when no credentials are configured or login fails
+ * Unless clientOptions.retry says otherwise, retries are logged to the console
+ */
+export async function connect(clientOptions: IndxClientOptions = {}, settings: ConnectionSettings = readConnectionSettings()): Promise<Connection> {
+  const { uri, bearerToken, userEmail, userPassword } = settings;
+
+  // Initialize HTTP client with the server's TLS settings and proxy
+  const { httpsAgent, proxy } = createTransport(uri, settings.tls);
+  if (settings.tls?.insecure && uri.startsWith('https:')) {
+    warnInsecure(uri);
+  }
+
+  const client = axios.create({
+    timeout: 5 * 60 * 1000, // 5 minutes timeout
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    httpsAgent,
+    proxy
+  });
+
+  // Set authentication
+  const canLogin = Boolean(userEmail && userPassword);
+  let token = bearerToken;
+  if (token) {
+    token = checkBearerToken(token, canLogin);
+  }
+  const cacheKey = tokenCacheKey(settings);
+  if (!token && canLogin) {
+    token = readCachedToken(cacheKey, uri, userEmail) ?? '';
+    if (token) {
+      ConsoleHelper.writeInfo(`Using the cached token for ${userEmail}`);
+    } else {
+      ConsoleHelper.writeInfo('Authenticating with email and password...');
+      token = await login(client, userEmail, userPassword, uri);
+      writeCachedToken(cacheKey, uri, userEmail, token);
+      ConsoleHelper.writeSuccess('Authentication successful');
+    }
+  }
+  if (!token) {
+    throw new IndxAuthError(
+      `No authentication credentials provided. Please set BEARER_TOKEN or USER_EMAIL and USER_PASSWORD in ${settings.source}`,
+      'api/login'
+    );
+  }
+  setBearerToken(client, token, uri);
+
+  // With credentials, a token that expires (or is revoked) during a long load is renewed
+  if (canLogin) {
+    enableTokenRefresh(client, token, {
+      userEmail,
+      userPassword,
+      uri,
+      onToken: renewed => {
+        writeCachedToken(cacheKey, uri, userEmail, renewed);
+        ConsoleHelper.writeInfo('Renewed the access token');
+      }
+    });
+  }
+
+  return {
+    client: new IndxClient(client, { retry: consoleRetryOptions(), ...clientOptions }),
+    uri
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Error hierarchy for IndxCloudApi requests
+ * Every failed request surfaces as an IndxError subclass carrying the HTTP status, route and response body
+ */
+import axios from 'axios';
+
+/**
+ * Base class for all errors raised by IndxClient
+ */
+export class IndxError extends Error {
+  /** HTTP status code, undefined when no response was received */
+  readonly status?: number;
+  /** Request route relative to the API base URI (e.g. api/GetStatus/tmdb) */
+  readonly route: string;
+  /** Response body as returned by the server */
+  readonly body?: unknown;
+
+  constructor(message: string, route: string, status?: number, body?: unknown, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'IndxError';
+    this.route = route;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * 401/403 - missing, invalid or expired credentials
+ */
+export class IndxAuthError extends IndxError {
+  constructor(message: string, route: string, status?: number, body?: unknown, options?: { cause?: unknown }) {
+    super(message, route, status, body, options);
+    this.name = 'IndxAuthError';
+  }
+}
+
+/**
+ * 404 - unknown route, dataset or document
+ */
+export class IndxNotFoundError extends IndxError {
+  constructor(message: string, route: string, status?: number, body?: unknown, options?: { cause?: unknown }) {
+    super(message, route, status, body, options);
+    this.name = 'IndxNotFoundError';
+  }
+}
+
+/**
+ * Any other non-2xx response
+ */
+export class IndxServerError extends IndxError {
+  constructor(message: string, route: string, status?: number, body?: unknown, options?: { cause?: unknown }) {
+    super(message, route, status, body, options);
+    this.name = 'IndxServerError';
+  }
+}
+
+/**
+ * No response received (connection refused, DNS failure, timeout, TLS error)
+ */
+export class IndxNetworkError extends IndxError {
+  /** Node/axios error code such as ECONNREFUSED or ETIMEDOUT */
+  readonly code?: string;
+
+  constructor(message: string, route: string, code?: string, options?: { cause?: unknown }) {
+    super(message, route, undefined, undefined, options);
+    this.name = 'IndxNetworkError';
+    this.code = code;
+  }
+}
+
+/**
+ * The dataset did not reach the expected state: it entered a failure state or polling timed out
+ */
+export class IndxStateError extends IndxError {
+  /** 'failed' when the server reported a failure state, 'timeout' when it never reached the target */
+  readonly reason: 'failed' | 'timeout';
+  /** Name of the last state reported by the server */
+  readonly state: string;
+  readonly elapsedMs: number;
+
+  constructor(message: string, route: string, reason: 'failed' | 'timeout', state: string, elapsedMs: number, lastStatus?: unknown) {
+    super(message, route, undefined, lastStatus);
+    this.name = 'IndxStateError';
+    this.reason = reason;
+    this.state = state;
+    this.elapsedMs = elapsedMs;
+  }
+}
+
+function describeBody(body: unknown): string {
+  if (body === undefined || body === null || body === '') return '';
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return text.length > 200 ? `: ${text.slice(0, 200)}...` : `: ${text}`;
+}
+
+/**
+ * Convert any error thrown by axios into the matching IndxError subclass
+ */
+export function toIndxError(error: unknown, route: string): IndxError {
+  if (error instanceof IndxError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+    if (!response) {
+      return new IndxNetworkError(`${route} failed: ${error.message}`, route, error.code, { cause: error });
+    }
+
+    const message = `${route} failed with HTTP ${response.status}${describeBody(response.data)}`;
+    if (response.status === 401 || response.status === 403) {
+      return new IndxAuthError(message, route, response.status, response.data, { cause: error });
+    }
+    if (response.status === 404) {
+      return new IndxNotFoundError(message, route, response.status, response.data, { cause: error });
+    }
+    return new IndxServerError(message, route, response.status, response.data, { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new IndxError(`${route} failed: ${message}`, route, undefined, undefined, { cause: error });
+}
+
@@ -0,0 +1,193 @@
+/**
+ * Field configuration plan
+ * Compares the live field configuration of a dataset with a DatasetConfig and applies only the differences
+ */
+import { DatasetConfig, FIELD_CATEGORIES, FieldCategory, Weight, configuredFields } from '../config/dataset-config.js';
+import { IndxClient } from './indx-client.js';
+
+export { FIELD_CATEGORIES, configuredFields } from '../config/dataset-config.js';
+export type { FieldCategory } from '../config/dataset-config.js';
+
+/**
+ * Field configuration as read from the server
+ * Searchable weights are undefined when the server only returns field names.
+ */
+export interface LiveFieldConfiguration {
+  searchable: { name: string; weight?: number }[];
+  filterable: string[];
+  facetable: string[];
+  sortable: string[];
+  wordIndexing: string[];
+}
+
+export interface CategoryDiff {
+  category: FieldCategory;
+  /** In the config but not set on the server */
+  added: string[];
+  /** Set on the server but not in the config */
+  removed: string[];
+}
+
+export interface WeightChange {
+  field: string;
+  from: number;
+  to: number;
+}
+
+export interface FieldPlan {
+  dataset: string;
+  /** One entry per category, including unchanged ones */
+  categories: CategoryDiff[];
+  weightChanges: WeightChange[];
+  /** False when the server did not report searchable weights, so weight changes cannot be detected */
+  weightsCompared: boolean;
+  hasChanges: boolean;
+}
+
+export interface ApplyResult {
+  /** Fields whose settings were cleared */
+  cleared: string[];
+  /** Categories that were set again */
+  updated: FieldCategory[];
+  /** Differences still present after applying (empty when the server matches the config) */
+  remaining: FieldPlan;
+}
+
+/**
+ * Normalize a searchable field entry; the server may return plain names or name/weight tuples
+ */
+function toSearchableEntry(entry: unknown): { name: string; weight?: number } {
+  if (typeof entry === 'string') {
+    return { name: entry };
+  }
+  const tuple = entry as { Item1?: string; Item2?: number; item1?: string; item2?: number; name?: string; weight?: number };
+  return {
+    name: String(tuple.Item1 ?? tuple.item1 ?? tuple.name),
+    weight: tuple.Item2 ?? tuple.item2 ?? tuple.weight
+  };
+}
+
+/**
+ * Read the current field configuration of a dataset
+ */
+export async function getLiveFieldConfiguration(client: IndxClient, dataSetName: string): Promise<LiveFieldConfiguration> {
+  const [searchable, filterable, facetable, sortable, wordIndexing] = await Promise.all([
+    client.getSearchableFields(dataSetName),
+    client.getFilterableFields(dataSetName),
+    client.getFacetableFields(dataSetName),
+    client.getSortableFields(dataSetName),
+    client.getWordIndexingFields(dataSetName)
+  ]);
+
+  return {
+    searchable: (searchable as unknown[]).map(toSearchableEntry),
+    filterable,
+    facetable,
+    sortable,
+    wordIndexing
+  };
+}
+
+function liveFields(live: LiveFieldConfiguration, category: FieldCategory): string[] {
+  return category === 'searchable' ? live.searchable.map(f => f.name) : live[category];
+}
+
+/**
+ * Diff a live configuration against a config
+ */
+export function diffFieldConfiguration(config: DatasetConfig, live: LiveFieldConfiguration): FieldPlan {
+  const categories = FIELD_CATEGORIES.map(category => {
+    const desired = configuredFields(config, category);
+    const current = liveFields(live, category);
+    return {
+      category,
+      added: desired.filter(f => !current.includes(f)),
+      removed: current.filter(f => !desired.includes(f))
+    };
+  });
+
+  const weightsCompared = live.searchable.length > 0 && live.searchable.every(f => f.weight !== undefined);
+  const weightChanges: WeightChange[] = [];
+  if (weightsCompared) {
+    for (const field of config.searchableFields) {
+      const current = live.searchable.find(f => f.name === field.name);
+      if (current && current.weight !== field.weight) {
+        weightChanges.push({ field: field.name, from: current.weight!, to: field.weight });
+      }
+    }
+  }
+
+  return {
+    dataset: config.name,
+    categories,
+    weightChanges,
+    weightsCompared,
+    hasChanges: weightChanges.length > 0 || categories.some(c => c.added.length > 0 || c.removed.length > 0)
+  };
+}
+
+/**
+ * Fetch the live configuration and diff it against the config
+ */
+export async function planFields(client: IndxClient, config: DatasetConfig): Promise<FieldPlan> {
+  return diffFieldConfiguration(config, await getLiveFieldConfiguration(client, config.name));
+}
+
+async function setCategory(client: IndxClient, config: DatasetConfig, category: FieldCategory): Promise<void> {
+  switch (category) {
+    case 'searchable': return client.setSearchableFields(config.name, config.searchableFields);
+    case 'filterable': return client.setFilterableFields(config.name, config.filterableFields);
+    case 'facetable': return client.setFacetableFields(config.name, config.facetableFields);
+    case 'sortable': return client.setSortableFields(config.name, config.sortableFields);
+    case 'wordIndexing': return client.setWordIndexingFields(config.name, config.wordIndexingFields);
+  }
+}
+
+/**
+ * Push the differences in a plan to the server
+ *
+ * The set endpoints only add settings, so removals go through ClearFieldSettings.
+ * Clearing resets every setting of a field, which means a cleared field is set again
+ * in each category where the config still wants it.
+ */
+export async function applyFieldPlan(client: IndxClient, config: DatasetConfig, plan: FieldPlan): Promise<ApplyResult> {
+  const cleared = [...new Set(plan.categories.flatMap(c => c.removed))];
+  if (cleared.length > 0) {
+    await client.clearFields(config.name, cleared);
+  }
+
+  const updated = plan.categories
+    .filter(c =>
+      c.added.length > 0 ||
+      (c.category === 'searchable' && plan.weightChanges.length > 0) ||
+      configuredFields(config, c.category).some(f => cleared.includes(f)))
+    .map(c => c.category);
+
+  for (const category of updated) {
+    await setCategory(client, config, category);
+  }
+
+  return { cleared, updated, remaining: await planFields(client, config) };
+}
+
+/**
+ * Readable name of a weight value
+ */
+export function weightName(weight: number): string {
+  return Weight[weight] ?? String(weight);
+}
+
+/**
+ * Describe a plan as lines of text, e.g. "+ filterable: year" / "- sortable: title"
+ */
+export function describeFieldPlan(plan: FieldPlan): string[] {
+  const lines: string[] = [];
+  for (const diff of plan.categories) {
+    diff.added.forEach(f => lines.push(`+ ${diff.category}: ${f}`));
+    diff.removed.forEach(f => lines.push(`- ${diff.category}: ${f}`));
+  }
+  for (const change of plan.weightChanges) {
+    lines.push(`~ searchable: ${change.field} weight ${weightName(change.from)} -> ${weightName(change.to)}`);
+  }
+  return lines;
+}
@@ -0,0 +1,144 @@
+/**
+ * Filters and boosts
+ * Creates the filters and boosts declared in a DatasetConfig on the server
+ */
+import { BoostDef, BoostStrengthName, DatasetConfig, FilterDef, FilterRef } from '../config/dataset-config.js';
+import { filterFields, filterReferences, parseFilterExpression } from '../config/filter-expression.js';
+import { IndxClient } from './indx-client.js';
+import { BoostProxy, BoostStrength, FilterProxy } from '@indxsearch/indx-types';
+
+export interface CreatedFilter {
+  name: string;
+  definition: FilterDef;
+  /** As returned by the server; pass it in queries and boosts */
+  proxy: FilterProxy;
+}
+
+export interface CreatedBoost {
+  /** Name of the boosted filter, or its description when defined inline */
+  filter: string;
+  strength: BoostStrengthName;
+  proxy: BoostProxy;
+}
+
+/**
+ * Everything created for a dataset's `filters` and `boosts`
+ */
+export interface FilterSetup {
+  filters: CreatedFilter[];
+  boosts: CreatedBoost[];
+}
+
+/**
+ * Describe a filter, e.g. "speed 10.5..50", "type1 = fire" or "(fast AND legendary)"
+ */
+export function describeFilter(ref: FilterRef): string {
+  if (typeof ref === 'string') return ref;
+  if ('all' in ref) return `(${ref.all.map(describeFilter).join(' AND ')})`;
+  if ('any' in ref) return `(${ref.any.map(describeFilter).join(' OR ')})`;
+  if ('value' in ref) return `${ref.field} = ${ref.value}`;
+  return `${ref.field} ${ref.min}..${ref.max}`;
+}
+
+/**
+ * Create one filter; names are resolved against the filters created so far
+ * Combinations of more than two filters are built up pairwise, as CombineFilters takes two.
+ */
+export async function createFilter(
+  client: IndxClient,
+  dataSetName: string,
+  ref: FilterRef,
+  created: Map<string, FilterProxy>
+): Promise<FilterProxy> {
+  if (typeof ref === 'string') {
+    const proxy = created.get(ref);
+    if (!proxy) {
+      throw new Error(`Unknown filter "${ref}"`);
+    }
+    return proxy;
+  }
+
+  if ('all' in ref || 'any' in ref) {
+    const useAndOperation = 'all' in ref;
+    const parts = useAndOperation ? ref.all : ref.any;
+    let combined = await createFilter(client, dataSetName, parts[0], created);
+    for (const part of parts.slice(1)) {
+      const b = await createFilter(client, dataSetName, part, created);
+      combined = await client.combineFilters(dataSetName, { a: combined, b, useAndOperation });
+    }
+    return combined;
+  }
+
+  if ('value' in ref) {
+    return client.createValueFilter(dataSetName, { fieldName: ref.field, value: ref.value });
+  }
+  return client.createRangeFilter(dataSetName, { fieldName: ref.field, lowerLimit: ref.min, upperLimit: ref.max });
+}
+
+/**
+ * Parse a filter expression, check its fields against the dataset's filterable fields and create it
+ * Throws FilterSyntaxError for malformed expressions. Named filters only exist in config files,
+ * so expressions given here must spell every filter out.
+ */
+export async function createFilterFromExpression(client: IndxClient, dataSetName: string, expression: string): Promise<FilterProxy> {
+  const ref = parseFilterExpression(expression);
+
+  const names = filterReferences(ref);
+  if (names.length > 0) {
+    throw new Error(`Unknown filter "${names[0]}": use field:value or field:[min..max]`);
+  }
+
+  const filterable = await client.getFilterableFields(dataSetName);
+  const unknown = filterFields(ref).filter(f => !filterable.includes(f));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Not filterable in ${dataSetName}: ${unknown.join(', ')} (filterable fields: ${filterable.join(', ') || 'none'})`
+    );
+  }
+
+  return createFilter(client, dataSetName, ref, new Map());
+}
+
+/**
+ * Create a boost for a filter
+ */
+export async function createBoost(
+  client: IndxClient,
+  dataSetName: string,
+  boost: BoostDef,
+  created: Map<string, FilterProxy>
+): Promise<BoostProxy> {
+  const filterProxy = await createFilter(client, dataSetName, boost.filter, created);
+  return client.createBoost(dataSetName, { filterProxy, boostStrength: BoostStrength[boost.strength] });
+}
+
+/**
+ * Create every filter and boost in the config, in order
+ * Failures are rethrown with the name of the filter or boost that failed.
+ */
+export async function createConfiguredFilters(client: IndxClient, config: DatasetConfig): Promise<FilterSetup> {
+  const setup: FilterSetup = { filters: [], boosts: [] };
+  const created = new Map<string, FilterProxy>();
+
+  for (const { name, ...definition } of config.filters ?? []) {
+    try {
+      const proxy = await createFilter(client, config.name, definition as FilterDef, created);
+      created.set(name, proxy);
+      setup.filters.push({ name, definition: definition as FilterDef, proxy });
+    } catch (error: any) {
+      throw new Error(`Failed to create filter "${name}": ${error.message}`, { cause: error });
+    }
+  }
+
+  for (const boost of config.boosts ?? []) {
+    const filter = describeFilter(boost.filter);
+    try {
+      const proxy = await createBoost(client, config.name, boost, created);
+      setup.boosts.push({ filter, strength: boost.strength, proxy });
+    } catch (error: any) {
+      throw new Error(`Failed to create boost on ${filter}: ${error.message}`, { cause: error });
+    }
+  }
+
+  return setup;
+}
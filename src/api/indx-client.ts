@@ -0,0 +1,414 @@
+/**
+ * Typed client for IndxCloudApi
+ * Wraps every endpoint used by the loader; failures are thrown as IndxError subclasses
+ */
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { SearchableField } from '../config/dataset-config.js';
+import { toIndxError } from './errors.js';
+import { RecreatableBodyConfig } from '../utils/auth.js';
+import { RetryEvent, RetryOptions, isTransientError, maxAttempts, retryDelay } from './retry.js';
+import {
+  SystemStatus,
+  CloudQuery,
+  Result,
+  FilterProxy,
+  RangeFilterProxy,
+  ValueFilterProxy,
+  CombinedFilterProxy,
+  BoostProxy
+} from '@indxsearch/indx-types';
+
+export const SEARCH_CONTROLLER_ROUTE = 'api';
+
+/**
+ * Read a Retry-After header (in seconds) from a failed axios request
+ */
+function retryAfterSeconds(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error)) return undefined;
+  const header = error.response?.headers?.['retry-after'];
+  const seconds = header !== undefined ? Number(header) : NaN;
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+export interface IndxClientOptions {
+  /** Controller route prefix for dataset endpoints (default "api") */
+  route?: string;
+  /** Retry policy for transient failures; `false` disables retries */
+  retry?: RetryOptions | false;
+}
+
+/**
+ * Request body, or a function creating it; use a function for streams so a retry gets a fresh one
+ */
+type Body = unknown | (() => unknown);
+
+export class IndxClient {
+  /** Controller route prefix for dataset endpoints */
+  readonly route: string;
+  private readonly retry: RetryOptions;
+
+  /**
+   * @param http    Axios instance with baseURL and Authorization header already set
+   * @param options Route prefix and retry policy
+   */
+  constructor(readonly http: AxiosInstance, options: IndxClientOptions = {}) {
+    this.route = options.route ?? SEARCH_CONTROLLER_ROUTE;
+    this.retry = options.retry === false ? { retries: 0 } : options.retry ?? {};
+  }
+
+  /**
+   * Send a request, retrying transient failures when the request is idempotent
+   * Non-idempotent requests (creating filters, starting indexing) are never replayed.
+   */
+  private async request<T>(config: AxiosRequestConfig & { url: string; method: string }, body: Body, idempotent: boolean): Promise<T> {
+    const attempts = maxAttempts(this.retry);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // A body function also goes along with the request, so a replay after a 401 gets a fresh stream too
+        const createData = typeof body === 'function' ? body as () => unknown : undefined;
+        const request: RecreatableBodyConfig = { ...config, data: createData ? createData() : body, createData };
+        const response = await this.http.request<T>(request);
+        return response.data;
+      } catch (caught) {
+        const error = toIndxError(caught, config.url);
+        if (!isTransientError(error, this.retry) || attempt >= attempts) {
+          throw error;
+        }
+
+        const event: RetryEvent = { method: config.method, route: config.url, attempt, maxAttempts: attempts, delayMs: 0, error };
+        if (!idempotent) {
+          this.retry.onNotRetried?.(event);
+          throw error;
+        }
+
+        event.delayMs = retryDelay(attempt, this.retry, retryAfterSeconds(caught));
+        this.retry.onRetry?.(event);
+        await new Promise(resolve => setTimeout(resolve, event.delayMs));
+      }
+    }
+  }
+
+  private get<T>(url: string, idempotent = true): Promise<T> {
+    return this.request<T>({ method: 'GET', url }, undefined, idempotent);
+  }
+
+  private put<T>(url: string, data: Body, config: AxiosRequestConfig = {}, idempotent = true): Promise<T> {
+    return this.request<T>({ ...config, method: 'PUT', url }, data, idempotent);
+  }
+
+  private post<T>(url: string, data: Body, config: AxiosRequestConfig = {}, idempotent = false): Promise<T> {
+    return this.request<T>({ ...config, method: 'POST', url }, data, idempotent);
+  }
+
+  private delete<T>(url: string): Promise<T> {
+    return this.request<T>({ method: 'DELETE', url }, undefined, true);
+  }
+
+  // ━━━ Dataset lifecycle ━━━
+
+  /**
+   * Create a dataset, or open it if it already exists
+   */
+  async createOrOpenDataSet(dataSetName: string): Promise<void> {
+    await this.put(`${this.route}/CreateOrOpen/${dataSetName}`, '');
+  }
+
+  /**
+   * Delete a dataset
+   */
+  async deleteDataSet(dataSetName: string): Promise<void> {
+    await this.delete(`${this.route}/DeleteDataSet/${dataSetName}`);
+  }
+
+  /**
+   * Get the names of all datasets owned by the current user
+   */
+  getUserDataSets(): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetUserDataSets`);
+  }
+
+  /**
+   * Get system status
+   */
+  getStatus(dataSetName: string): Promise<SystemStatus> {
+    return this.get<SystemStatus>(`${this.route}/GetStatus/${dataSetName}`);
+  }
+
+  // ━━━ Analyze ━━━
+
+  /**
+   * Analyze data structure from string content
+   */
+  analyze(dataSetName: string, fileName: string): Promise<SystemStatus> {
+    const fullFile = fs.readFileSync(fileName, 'utf-8');
+    return this.post<SystemStatus>(
+      `${this.route}/AnalyzeString/${dataSetName}`,
+      fullFile,
+      { headers: { 'Content-Type': 'text/plain' } },
+      true
+    );
+  }
+
+  /**
+   * Analyze data structure from file stream
+   */
+  analyzeStream(dataSetName: string, fileName: string): Promise<SystemStatus> {
+    return this.post<SystemStatus>(
+      `${this.route}/AnalyzeStreamAsync/${dataSetName}`,
+      () => fs.createReadStream(fileName),
+      { headers: { 'Content-Type': 'text/plain' } },
+      true
+    );
+  }
+
+  /**
+   * Analyze data structure from a generated JSON stream (e.g. transformed records)
+   * `createStream` is called again for every attempt
+   */
+  analyzeRecordStream(dataSetName: string, createStream: () => Readable): Promise<SystemStatus> {
+    return this.post<SystemStatus>(
+      `${this.route}/AnalyzeStreamAsync/${dataSetName}`,
+      createStream,
+      { headers: { 'Content-Type': 'text/plain' }, maxBodyLength: Infinity },
+      true
+    );
+  }
+
+  // ━━━ Field configuration ━━━
+
+  /**
+   * Get all fields in a dataset
+   */
+  getAllFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetAllFields/${dataSetName}`);
+  }
+
+  /**
+   * Get searchable fields
+   */
+  getSearchableFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetSearchableFields/${dataSetName}`);
+  }
+
+  /**
+   * Get filterable fields
+   */
+  getFilterableFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetFilterableFields/${dataSetName}`);
+  }
+
+  /**
+   * Get facetable fields
+   */
+  getFacetableFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetFacetableFields/${dataSetName}`);
+  }
+
+  /**
+   * Get sortable fields
+   */
+  getSortableFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetSortableFields/${dataSetName}`);
+  }
+
+  /**
+   * Get word indexing fields
+   */
+  getWordIndexingFields(dataSetName: string): Promise<string[]> {
+    return this.get<string[]>(`${this.route}/GetWordIndexingFields/${dataSetName}`);
+  }
+
+  /**
+   * Set searchable fields with weights
+   *
+   * The C# endpoint takes ValueTuple<string, int>[], which serializes as Item1/Item2:
+   * [{ "Item1": "title", "Item2": 0 }, { "Item1": "description", "Item2": 1 }]
+   *
+   * Weight values: 0 = High, 1 = Med, 2 = Low
+   */
+  async setSearchableFields(dataSetName: string, fields: SearchableField[]): Promise<void> {
+    const tuples = fields.map(f => ({ Item1: f.name, Item2: f.weight }));
+    await this.put(`${this.route}/SetSearchableFields/${dataSetName}`, tuples);
+  }
+
+  /**
+   * Set filterable fields
+   */
+  async setFilterableFields(dataSetName: string, fields: string[]): Promise<void> {
+    await this.put(`${this.route}/SetFilterableFields/${dataSetName}`, fields);
+  }
+
+  /**
+   * Set facetable fields
+   */
+  async setFacetableFields(dataSetName: string, fields: string[]): Promise<void> {
+    await this.put(`${this.route}/SetFacetableFields/${dataSetName}`, fields);
+  }
+
+  /**
+   * Set sortable fields
+   */
+  async setSortableFields(dataSetName: string, fields: string[]): Promise<void> {
+    await this.put(`${this.route}/SetSortableFields/${dataSetName}`, fields);
+  }
+
+  /**
+   * Set word indexing fields
+   */
+  async setWordIndexingFields(dataSetName: string, fields: string[]): Promise<void> {
+    await this.put(`${this.route}/SetWordIndexingFields/${dataSetName}`, fields);
+  }
+
+  /**
+   * Clear all field settings for the given fields
+   */
+  async clearFields(dataSetName: string, fields: string[]): Promise<void> {
+    await this.put(`${this.route}/ClearFieldSettings/${dataSetName}`, fields);
+  }
+
+  // ━━━ Loading and indexing ━━━
+
+  /**
+   * Load data from file stream
+   * Retried like other idempotent calls: loading the same file again yields the same records
+   */
+  async loadStream(dataSetName: string, fileName: string): Promise<void> {
+    const fileStats = fs.statSync(fileName);
+    await this.put(
+      `${this.route}/LoadStream/${dataSetName}`,
+      () => fs.createReadStream(fileName),
+      {
+        headers: {
+          'Content-Type': 'text/plain',
+          'Content-Length': fileStats.size.toString()
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity
+      }
+    );
+  }
+
+  /**
+   * Load data from a generated JSON stream (e.g. transformed records)
+   * The length is not known up front, so the body is sent chunked; `createStream` is called again for every attempt
+   */
+  async loadRecordStream(dataSetName: string, createStream: () => Readable): Promise<void> {
+    await this.put(
+      `${this.route}/LoadStream/${dataSetName}`,
+      createStream,
+      {
+        headers: { 'Content-Type': 'text/plain' },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity
+      }
+    );
+  }
+
+  /**
+   * Load data from string
+   */
+  async loadString(dataSetName: string, fileNameAndPath: string): Promise<void> {
+    const fc = fs.readFileSync(fileNameAndPath, 'utf-8');
+    await this.put(
+      `${this.route}/LoadString/${dataSetName}`,
+      fc,
+      { headers: { 'Content-Type': 'text/plain' } }
+    );
+  }
+
+  /**
+   * Load records held in memory (sent as a JSON array)
+   * Used by incremental sync, which expects a record to replace the one stored under the same
+   * document key; nothing in the API promises that, so DatasetLoader.sync() checks it
+   */
+  async loadRecords(dataSetName: string, records: unknown[]): Promise<void> {
+    await this.put(
+      `${this.route}/LoadString/${dataSetName}`,
+      JSON.stringify(records),
+      {
+        headers: { 'Content-Type': 'text/plain' },
+        maxBodyLength: Infinity
+      }
+    );
+  }
+
+  /**
+   * Load dataset from database
+   * Not retried: it starts a server-side job
+   */
+  async loadFromDatabase(dataSetName: string): Promise<void> {
+    await this.get(`${this.route}/LoadFromDatabase/${dataSetName}`, false);
+  }
+
+  /**
+   * Start indexing a dataset
+   * Not retried: it starts a server-side job
+   */
+  async indexDataSet(dataSetName: string): Promise<void> {
+    await this.get(`${this.route}/IndexDataSet/${dataSetName}`, false);
+  }
+
+  /**
+   * Get number of JSON records in database
+   */
+  getNumberOfJsonRecordsInDb(dataSetName: string): Promise<number> {
+    return this.get<number>(`${this.route}/GetNumberOfJsonRecordsInDb/${dataSetName}`);
+  }
+
+  /**
+   * Delete a document by key
+   */
+  async deleteDocument(dataSetName: string, documentKey: number): Promise<void> {
+    await this.delete(`${this.route}/${dataSetName}/${documentKey}`);
+  }
+
+  // ━━━ Search ━━━
+
+  /**
+   * Search for records
+   */
+  search(q: CloudQuery, dataSetName: string): Promise<Result> {
+    return this.post<Result>(`${this.route}/Search/${dataSetName}`, q, {}, true);
+  }
+
+  /**
+   * Get JSON records by keys
+   */
+  getJson(dataSetName: string, keys: number[]): Promise<string[]> {
+    return this.post<string[]>(`${this.route}/GetJson/${dataSetName}`, keys, {}, true);
+  }
+
+  // ━━━ Filters and boosts ━━━
+  // Each call creates a new server-side object, so none of them are retried
+
+  /**
+   * Create a range filter
+   */
+  createRangeFilter(dataSetName: string, rangeFilter: RangeFilterProxy): Promise<FilterProxy> {
+    return this.put<FilterProxy>(`${this.route}/CreateRangeFilter/${dataSetName}`, rangeFilter, {}, false);
+  }
+
+  /**
+   * Create a value filter
+   */
+  createValueFilter(dataSetName: string, valueFilter: ValueFilterProxy): Promise<FilterProxy> {
+    return this.put<FilterProxy>(`${this.route}/CreateValueFilter/${dataSetName}`, valueFilter, {}, false);
+  }
+
+  /**
+   * Combine two filters into one
+   */
+  combineFilters(dataSetName: string, combinedFilter: CombinedFilterProxy): Promise<FilterProxy> {
+    return this.put<FilterProxy>(`${this.route}/CombineFilters/${dataSetName}`, combinedFilter, {}, false);
+  }
+
+  /**
+   * Create a boost proxy
+   */
+  createBoost(dataSetName: string, boost: BoostProxy): Promise<BoostProxy> {
+    return this.put<BoostProxy>(`${this.route}/CreateBoost/${dataSetName}`, boost, {}, false);
+  }
+}
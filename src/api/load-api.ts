@@ -1,864 +1,982 @@
 /**
  * API layer for IndxCloudApi
  * Converts C# LoadAPI.cs to TypeScript with axios
+ *
+ * Endpoint wrappers live in IndxClient (indx-client.ts); this module holds the load workflow.
+ * The workflow prints nothing itself: it reports through events and returns a LoadResult,
+ * and the CLI renders both with the console reporter (utils/console-reporter.ts).
  */
-import { AxiosInstance } from 'axios';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ConsoleHelper } from '../utils/console-helper.js';
-import { DatasetConfig, SearchableField } from '../config/dataset-config.js';
+import { BlueGreenOptions, DatasetConfig } from '../config/dataset-config.js';
+import { IndxClient } from './indx-client.js';
+import { WaitOptions, waitForState } from './wait-for-state.js';
+import { describeFieldPlan, planFields } from './field-plan.js';
+import { IndxNotFoundError } from './errors.js';
+import { FilterSetup, createConfiguredFilters, describeFilter } from './filters.js';
+import { RelevanceReport, describeQueryEvaluation, runRelevanceSuite } from './relevance.js';
+import { DataRecord, isPlainJson, resolveInput } from '../data/record-reader.js';
+import { RecordTransform, createRecordTransform, jsonArrayStream, readDatasetRecords } from '../data/transforms.js';
+import { DEFAULT_KEY_FIELD, Manifest, RecordDiff, diffRecords } from '../data/manifest.js';
+import { DataValidationReport, describeDataIssue, describeFieldReport, validateRecords } from '../data/data-validation.js';
 import {
-  SystemStatus,
-  SystemState,
-  CloudQuery,
-  Result,
-  FilterProxy,
-  RangeFilterProxy,
-  ValueFilterProxy,
-  CombinedFilterProxy,
-  BoostProxy,
-  BoostStrength
-} from '@indxsearch/indx-types';
-
-const SEARCH_CONTROLLER_ROUTE = 'api';
-
-// ━━━ API Methods ━━━
-
-/**
- * Analyze data structure from string content
- */
-export async function analyze(dataSetName: string, fileName: string, client: AxiosInstance): Promise<SystemStatus | null> {
-  try {
-    const fullFile = fs.readFileSync(fileName, 'utf-8');
-    const response = await client.post(
-      `${SEARCH_CONTROLLER_ROUTE}/AnalyzeString/${dataSetName}`,
-      fullFile,
-      { headers: { 'Content-Type': 'text/plain' } }
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data as SystemStatus;
-    }
-    return null;
-  } catch (error) {
-    console.error('Analyze error:', error);
-    return null;
-  }
+  UploadCheckpoint,
+  checkpointMismatch,
+  createCheckpoint,
+  deleteCheckpoint,
+  readCheckpoint,
+  writeCheckpoint
+} from '../data/checkpoint.js';
+import { DEFAULT_RETAIN, promoteVersion, readReleases, versionedName, writeReleases } from '../data/releases.js';
+import { SystemState, CloudQuery } from '@indxsearch/indx-types';
+
+/**
+ * Steps of the load workflow, in execution order
+ */
+export type LoadStep =
+  | 'validate'
+  | 'profile'
+  | 'create'
+  | 'analyze'
+  | 'configure'
+  | 'verify'
+  | 'filters'
+  | 'load'
+  | 'diff'
+  | 'upsert'
+  | 'delete'
+  | 'index'
+  | 'testSearch'
+  | 'relevance'
+  | 'promote'
+  | 'cleanup';
+
+export type StepStatus = 'success' | 'failed' | 'skipped';
+
+export interface StepResult {
+  step: LoadStep;
+  status: StepStatus;
+  /** One-line outcome, e.g. "Found 12 fields" */
+  message: string;
+  /** Additional lines worth showing (field lists, record counts) */
+  details: string[];
+  startedAt: Date;
+  durationMs: number;
+  error?: Error;
 }
 
-/**
- * Analyze data structure from file stream
- */
-export async function analyzeStreamAsync(dataSetName: string, fileName: string, client: AxiosInstance): Promise<SystemStatus | null> {
-  try {
-    const fileStream = fs.createReadStream(fileName);
-    const response = await client.post(
-      `${SEARCH_CONTROLLER_ROUTE}/AnalyzeStreamAsync/${dataSetName}`,
-      fileStream,
-      { headers: { 'Content-Type': 'text/plain' } }
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data as SystemStatus;
-    }
-    return null;
-  } catch (error) {
-    console.error('AnalyzeStreamAsync error:', error);
-    return null;
-  }
+export interface SearchHit {
+  documentKey: number;
+  score: number;
+  /** Raw JSON of the record, as returned by GetJson */
+  record?: string;
 }
 
-/**
- * Clear field settings
- */
-export async function clearFields(dataSetName: string, fields: string[], client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/ClearFieldSettings/${dataSetName}`, fields);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
+export interface LoadResult {
+  dataset: string;
+  /** Versioned dataset the records went into, for blue/green loads */
+  version?: string;
+  success: boolean;
+  /** The step that failed, when success is false */
+  failedStep?: LoadStep;
+  error?: Error;
+  steps: StepResult[];
+  /** Fields discovered by the server during analysis */
+  fields: string[];
+  recordCount: number;
+  loadingTimeMs: number;
+  indexingTimeMs: number;
+  totalTimeMs: number;
+  testSearch?: {
+    query: string;
+    hits: SearchHit[];
+  };
+  /** Pre-flight data validation report, unless validation was skipped */
+  validation?: DataValidationReport;
+  /** Filters and boosts created from the config, with the proxies the server returned */
+  filters?: FilterSetup;
+  /** Scores of the golden queries, when the config has any */
+  relevance?: RelevanceReport;
 }
 
 /**
- * Combine two filters into one
+ * Result of an incremental sync
  */
-export async function combineFilters(dataSetName: string, combinedFilter: CombinedFilterProxy, client: AxiosInstance): Promise<FilterProxy | null> {
-  try {
-    const response = await client.put<FilterProxy>(
-      `${SEARCH_CONTROLLER_ROUTE}/CombineFilters/${dataSetName}`,
-      combinedFilter
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+export interface SyncResult extends LoadResult {
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  /** Manifest describing the data file; set when the sync succeeded */
+  manifest?: Manifest;
 }
 
-/**
- * Create a boost proxy
- */
-export async function createBoost(dataSetName: string, boost: BoostProxy, client: AxiosInstance): Promise<BoostProxy | null> {
-  try {
-    const response = await client.put<BoostProxy>(
-      `${SEARCH_CONTROLLER_ROUTE}/CreateBoost/${dataSetName}`,
-      boost
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+export interface StepStartedEvent {
+  step: LoadStep;
+  description: string;
 }
 
-/**
- * Create or open a dataset
- */
-export async function createOrOpenDataSet(route: string, dataSetName: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${route}/CreateOrOpen/${dataSetName}`, '');
-    if (response.status < 200 || response.status >= 300) {
-      console.log('CreateOrOpenDataSet response error:', response.statusText);
-    }
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    console.error('CreateOrOpenDataSet error:', error);
-    return false;
-  }
+export interface ProgressEvent {
+  step: LoadStep;
+  message: string;
 }
 
-/**
- * Create a range filter
- */
-export async function createRangeFilter(dataSetName: string, rangeFilter: RangeFilterProxy, client: AxiosInstance): Promise<FilterProxy | null> {
-  try {
-    const response = await client.put<FilterProxy>(
-      `${SEARCH_CONTROLLER_ROUTE}/CreateRangeFilter/${dataSetName}`,
-      rangeFilter
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+export interface WarningEvent {
+  step: LoadStep;
+  message: string;
 }
 
 /**
- * Create a value filter
+ * Events emitted by DatasetLoader
  */
-export async function createValueFilter(dataSetName: string, valueFilter: ValueFilterProxy, client: AxiosInstance): Promise<FilterProxy | null> {
-  try {
-    const response = await client.put<FilterProxy>(
-      `${SEARCH_CONTROLLER_ROUTE}/CreateValueFilter/${dataSetName}`,
-      valueFilter
-    );
-
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+export interface LoaderEvents {
+  stepStarted: (event: StepStartedEvent) => void;
+  stepCompleted: (result: StepResult) => void;
+  progress: (event: ProgressEvent) => void;
+  warning: (event: WarningEvent) => void;
 }
 
 /**
- * Delete a dataset
+ * What a step body hands back to runStep
  */
-export async function deleteDataSet(route: string, dataSetName: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.delete(`${route}/DeleteDataSet/${dataSetName}`);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
+interface StepOutcome {
+  message: string;
+  details?: string[];
+  status?: StepStatus;
 }
 
 /**
- * Delete a document by key
+ * Thrown by a step body to stop the workflow with a message that is not an API error
  */
-export async function deleteDocument(dataSetName: string, documentKey: number, client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.delete(`${SEARCH_CONTROLLER_ROUTE}/${dataSetName}/${documentKey}`);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+export class LoadStepError extends Error {
+  /** Lines explaining the failure, reported as the step's details */
+  readonly details: string[];
 
-/**
- * Get all fields in a dataset
- */
-export async function getAllFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetAllFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('System status request failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetAllFields request failed');
-    process.exit(-1);
+  constructor(message: string, options?: { cause?: unknown; details?: string[] }) {
+    super(message, options);
+    this.name = 'LoadStepError';
+    this.details = options?.details ?? [];
   }
-  return [];
 }
 
 /**
- * Get facetable fields
+ * How the data file is sent to the server
  */
-export async function getFacetableFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetFacetableFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('GetFacetableFields failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetFacetableFields request failed');
-    process.exit(-1);
-  }
-  return [];
+interface DataSource {
+  /** Built from config.transforms */
+  transform?: RecordTransform;
+  /** Records are converted to a JSON array while streaming (other formats, compression or transforms) */
+  converted: boolean;
 }
 
 /**
- * Get filterable fields
+ * Batched upload settings
  */
-export async function getFilterableFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetFilterableFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('GetFilterableFields failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetFilterableFields request failed');
-    process.exit(-1);
-  }
-  return [];
+export interface UploadOptions {
+  /** Records per LoadString request (default 10,000, or the batch size of the resumed checkpoint) */
+  batchSize?: number;
+  /** Continue an interrupted upload from its checkpoint instead of starting over */
+  resume?: boolean;
+  /** Directory for checkpoint files (default .indx) */
+  stateDir?: string;
 }
 
 /**
- * Get searchable fields
+ * Blue/green load settings
  */
-export async function getSearchableFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetSearchableFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('System status request failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetSearchableFields request failed');
-    process.exit(-1);
-  }
-  return [];
+export interface BlueGreenLoadOptions extends BlueGreenOptions {
+  /** Directory for release pointer files (default .indx) */
+  stateDir?: string;
 }
 
-/**
- * Get JSON records by keys
- */
-export async function getJson(dataSetName: string, keys: number[], client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.post<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetJson/${dataSetName}`, keys);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('GetUserDataSets request failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetJson request failed');
-    process.exit(-1);
-  }
-  return [];
+export interface DatasetLoaderOptions {
+  /** Polling behaviour while waiting for loading and indexing to finish */
+  wait?: WaitOptions;
+  /** Send records in batches with a resumable checkpoint instead of one LoadStream request */
+  upload?: UploadOptions;
+  /** Skip the pre-flight data validation, whatever the config says */
+  skipValidation?: boolean;
+  /** Load into a new versioned dataset and make it current only when every step passed */
+  blueGreen?: BlueGreenLoadOptions;
 }
 
-/**
- * Get sortable fields
- */
-export async function getSortableFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetSortableFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('System status request failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetSortableFields request failed');
-    process.exit(-1);
-  }
-  return [];
-}
+export const DEFAULT_BATCH_SIZE = 10_000;
 
-/**
- * Get word indexing fields
- */
-export async function getWordIndexingFields(dataSetName: string, client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetWordIndexingFields/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('GetWordIndexingFields failed, type any char to exit');
-      process.exit(-1);
-    }
-  } catch (error) {
-    console.log('GetWordIndexingFields request failed');
-    process.exit(-1);
-  }
-  return [];
+// Previously loaded records read back to check the document keys before a sync
+const DOCUMENT_KEY_SAMPLE_SIZE = 20;
+
+// Outcome of the steps skipped when resuming an interrupted upload
+const RESUMED: StepOutcome = { message: 'Already done before the upload was interrupted', status: 'skipped' };
+
+export interface DatasetLoader {
+  on<E extends keyof LoaderEvents>(event: E, listener: LoaderEvents[E]): this;
+  once<E extends keyof LoaderEvents>(event: E, listener: LoaderEvents[E]): this;
+  off<E extends keyof LoaderEvents>(event: E, listener: LoaderEvents[E]): this;
+  emit<E extends keyof LoaderEvents>(event: E, ...args: Parameters<LoaderEvents[E]>): boolean;
 }
 
 /**
- * Get number of JSON records in database
+ * Loads and configures a dataset in the IndxCloudApi search server.
+ *
+ * Process Overview:
+ * 1. validate   - Check that the data file exists
+ * 2. profile    - Read every record and check the configured fields against the data
+ * 3. create     - Initialize or open existing dataset
+ * 4. analyze    - Parse JSON structure and identify fields
+ * 5. configure  - Set searchable, word indexing, filterable, facetable, and sortable properties
+ * 6. verify     - Read the field configuration back and compare it with the config
+ * 7. filters    - Create the filters and boosts declared in the config
+ * 8. load       - Stream JSON data to the search server
+ * 9. index      - Build search indexes for fast querying
+ * 10. testSearch - Verify dataset with a sample query
+ * 11. relevance  - Score the golden queries and check the relevance thresholds
+ *
+ * Blue/green loads run these steps on a new versioned dataset (e.g. tmdb__20261019T120000)
+ * while the current version keeps serving searches, then:
+ * 12. promote    - Record the new version as current in the release pointer
+ * 13. cleanup    - Delete the versions beyond the retention count
+ *
+ * Field Types Explained:
+ * - Searchable: Fields that can be queried with full-text search (e.g., title, description)
+ * - Word Indexing: Fields that use word-level indexing for enhanced search capabilities
+ * - Filterable: Fields that can be used to filter results (e.g., genre, year)
+ * - Facetable: Fields that can be aggregated for faceted navigation (e.g., category counts)
+ * - Sortable: Fields that can be used to sort results (e.g., popularity, date)
  */
-export async function getNumberOfJsonRecordsInDb(dataSetName: string, client: AxiosInstance): Promise<number> {
-  try {
-    const response = await client.get<number>(`${SEARCH_CONTROLLER_ROUTE}/GetNumberOfJsonRecordsInDb/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      return 0;
-    }
-  } catch (error) {
-    return 0;
+export class DatasetLoader extends EventEmitter {
+  constructor(private readonly client: IndxClient, private readonly options: DatasetLoaderOptions = {}) {
+    super();
   }
-}
 
-/**
- * Get system status
- */
-export async function getStatus(dataSetName: string, client: AxiosInstance): Promise<SystemStatus | null> {
-  try {
-    const response = await client.get<SystemStatus>(`${SEARCH_CONTROLLER_ROUTE}/GetStatus/${dataSetName}`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    } else {
-      console.log('System status request failed, type any char to exit');
-      process.exit(-1);
+  /**
+   * Run the workflow for one dataset
+   * Never throws for API failures: the failing step is reported in the returned LoadResult
+   */
+  async load(config: DatasetConfig): Promise<LoadResult> {
+    const blueGreen = this.options.blueGreen;
+    if (!blueGreen) {
+      return this.loadInto(config);
     }
-  } catch (error) {
-    console.log('GetStatus request failed');
-    process.exit(-1);
-  }
-  return null;
-}
 
-/**
- * Get user datasets
- */
-export async function getUserDataSets(client: AxiosInstance): Promise<string[]> {
-  try {
-    const response = await client.get<string[]>(`${SEARCH_CONTROLLER_ROUTE}/GetUserDataSets`);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
+    const startTime = Date.now();
+    const stateDir = blueGreen.stateDir;
+    const live = readReleases(config.name, stateDir)?.current;
+    const version = versionedName(config.name);
+    this.emit('progress', {
+      step: 'validate',
+      message: `Blue/green load into ${version}; ${live ?? 'the previous version'} keeps serving searches until it is promoted`
+    });
+
+    const result = await this.loadInto({ ...config, name: version });
+    result.dataset = config.name;
+    result.version = version;
+
+    if (!result.success) {
+      await this.discardVersion(result, version, live);
     } else {
-      console.log('GetUserDataSets request failed, type any char to exit');
-      process.exit(-1);
+      result.success = await this.promote(result, config.name, version, blueGreen);
     }
-  } catch (error) {
-    console.log('GetUserDataSets request failed');
-    process.exit(-1);
-  }
-  return [];
-}
+    result.totalTimeMs = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Run the load steps against the dataset named in the config
+   */
+  private async loadInto(config: DatasetConfig): Promise<LoadResult> {
+    const startTime = Date.now();
+    const client = this.client;
+    const result: LoadResult = {
+      dataset: config.name,
+      success: false,
+      steps: [],
+      fields: [],
+      recordCount: 0,
+      loadingTimeMs: 0,
+      indexingTimeMs: 0,
+      totalTimeMs: 0
+    };
 
-/**
- * Index a dataset
- */
-export async function indexDataSet(dataSetName: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.get(`${SEARCH_CONTROLLER_ROUTE}/IndexDataSet/${dataSetName}`);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+    const finish = (): LoadResult => {
+      result.totalTimeMs = Date.now() - startTime;
+      return result;
+    };
 
-/**
- * Load dataset from database
- */
-export async function loadFromDatabaseAsync(dataSetName: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.get(`${SEARCH_CONTROLLER_ROUTE}/LoadFromDatabase/${dataSetName}`);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+    // ━━━ Step 1: Validate Data File ━━━
+    const source = await this.validateFile(result, config);
+    if (!source) return finish();
 
-/**
- * Load data from file stream
- */
-export async function loadStreamAsync(dataSetName: string, fileName: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const fileStats = fs.statSync(fileName);
-    const fileStream = fs.createReadStream(fileName);
-
-    const response = await client.put(
-      `${SEARCH_CONTROLLER_ROUTE}/LoadStream/${dataSetName}`,
-      fileStream,
-      {
-        headers: {
-          'Content-Type': 'text/plain',
-          'Content-Length': fileStats.size.toString()
-        },
-        maxBodyLength: Infinity,
-        maxContentLength: Infinity
-      }
-    );
-    return response.status >= 200 && response.status < 300;
-  } catch (error: any) {
-    console.error('LoadStreamAsync error:', error.response?.data || error.message);
-    return false;
-  }
-}
+    // A resumed upload continues at the load step; the steps before it succeeded in the interrupted run
+    const checkpoint = this.prepareCheckpoint(config);
+    const resuming = checkpoint !== null && checkpoint.completedBatches.length > 0;
 
-/**
- * Load data from string
- */
-export async function loadString(dataSetName: string, fileNameAndPath: string, client: AxiosInstance): Promise<boolean> {
-  try {
-    const fc = fs.readFileSync(fileNameAndPath, 'utf-8');
-    const response = await client.put(
-      `${SEARCH_CONTROLLER_ROUTE}/LoadString/${dataSetName}`,
-      fc,
-      { headers: { 'Content-Type': 'text/plain' } }
-    );
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+    // ━━━ Step 2: Validate Records ━━━
+    if (!await this.profileData(result, config, source, resuming)) return finish();
 
-/**
- * Search for records
- */
-export async function search(q: CloudQuery, dataSetName: string, client: AxiosInstance): Promise<Result | null> {
-  try {
-    const response = await client.post<Result>(`${SEARCH_CONTROLLER_ROUTE}/Search/${dataSetName}`, q);
-    if (response.status >= 200 && response.status < 300) {
-      return response.data;
-    }
-    return null;
-  } catch (error) {
-    console.error('Search error:', error);
-    return null;
-  }
-}
+    // ━━━ Step 3: Create or Open Dataset ━━━
+    const created = await this.runStep(result, 'create', 'Creating or opening dataset...', async () => {
+      await client.createOrOpenDataSet(config.name);
+      return { message: 'Dataset opened successfully' };
+    });
+    if (!created) return finish();
 
-/**
- * Set facetable fields
- */
-export async function setFacetableFields(dataSetName: string, fields: string[], client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/SetFacetableFields/${dataSetName}`, fields);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+    // ━━━ Step 4: Analyze Data Structure and Discover Fields ━━━
+    const analyzed = await this.runStep(result, 'analyze', 'Analyzing data structure...', async () => {
+      if (resuming) return RESUMED;
 
-/**
- * Set filterable fields
- */
-export async function setFilterableFields(dataSetName: string, fields: string[], client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/SetFilterableFields/${dataSetName}`, fields);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+      if (source.converted) {
+        await client.analyzeRecordStream(config.name, () => jsonArrayStream(readDatasetRecords(config, source.transform)));
+      } else {
+        await client.analyze(config.name, config.filePath);
+      }
+      this.emit('progress', { step: 'analyze', message: 'Data structure analyzed, discovering fields...' });
 
-/**
- * Set searchable fields with weights
- *
- * The C# API endpoint signature is: SetSearchableFields(string dataSetName, ValueTuple<string, int>[] fields)
- *
- * When C# ValueTuple is serialized to JSON, it uses Item1, Item2, etc. properties.
- * So we must send:
- * [
- *   { "Item1": "title", "Item2": 0 },
- *   { "Item1": "description", "Item2": 1 }
- * ]
- *
- * NOT:
- * [
- *   { "name": "title", "weight": 0 },
- *   { "name": "description", "weight": 1 }
- * ]
- *
- * Weight values:
- * - 0 = High
- * - 1 = Med
- * - 2 = Low
- */
-export async function setSearchableFields(dataSetName: string, fields: SearchableField[], client: AxiosInstance): Promise<boolean> {
-  // Convert to C# ValueTuple format with Item1 (name) and Item2 (weight)
-  const tuples = fields.map(f => ({ Item1: f.name, Item2: f.weight }));
-
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/SetSearchableFields/${dataSetName}`, tuples);
-    return response.status >= 200 && response.status < 300;
-  } catch (error: any) {
-    console.error('SetSearchableFields error:', error.response?.data || error.message);
-    return false;
-  }
-}
+      // Get initial status (for verification)
+      await client.getStatus(config.name);
 
-/**
- * Set sortable fields
- */
-export async function setSortableFields(dataSetName: string, fields: string[], client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/SetSortableFields/${dataSetName}`, fields);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+      result.fields = await client.getAllFields(config.name);
+      return {
+        message: `Found ${result.fields.length} fields`,
+        details: [`Fields: ${result.fields.join(', ')}`]
+      };
+    });
+    if (!analyzed) return finish();
+
+    // ━━━ Step 5: Configure Fields ━━━
+    const configured = await this.runStep(result, 'configure', 'Configuring fields...', async () => {
+      if (resuming) return RESUMED;
+
+      // Searchable fields are used for full-text search queries.
+      // Weight determines relevance (High > Med > Low) in search results.
+      await this.configureFields('searchable', config.searchableFields.length,
+        () => client.setSearchableFields(config.name, config.searchableFields));
+
+      // Filterable fields can be used in filter expressions (e.g., year > 2020).
+      await this.configureFields('filterable', config.filterableFields.length,
+        () => client.setFilterableFields(config.name, config.filterableFields));
+
+      // Facetable fields enable aggregated counts for filtering UI (e.g., Genre: Action (42)).
+      await this.configureFields('facetable', config.facetableFields.length,
+        () => client.setFacetableFields(config.name, config.facetableFields));
+
+      // Sortable fields allow results to be ordered (e.g., sort by popularity desc).
+      await this.configureFields('sortable', config.sortableFields.length,
+        () => client.setSortableFields(config.name, config.sortableFields));
+
+      // Word indexing fields enable word-level indexing for specific fields.
+      await this.configureFields('word indexing', config.wordIndexingFields.length,
+        () => client.setWordIndexingFields(config.name, config.wordIndexingFields));
+
+      return {
+        message: 'Field configuration applied',
+        details: [
+          `Searchable: ${config.searchableFields.map(f => `${f.name} (weight: ${f.weight})`).join(', ')}`,
+          `Word indexing: ${config.wordIndexingFields.join(', ')}`
+        ]
+      };
+    });
+    if (!configured) return finish();
 
-/**
- * Set word indexing fields
- */
-export async function setWordIndexingFields(dataSetName: string, fields: string[], client: AxiosInstance): Promise<boolean> {
-  try {
-    const response = await client.put(`${SEARCH_CONTROLLER_ROUTE}/SetWordIndexingFields/${dataSetName}`, fields);
-    return response.status >= 200 && response.status < 300;
-  } catch (error) {
-    return false;
-  }
-}
+    // ━━━ Step 6: Verify Field Configuration ━━━
+    const verified = await this.runStep(result, 'verify', 'Verifying field configuration...', async () => {
+      if (resuming) return RESUMED;
 
-/**
- * Loads and configures a dataset in the IndxCloudApi search server.
- *
- * Process Overview:
- * 1. Validation - Check file existence and API connectivity
- * 2. Create/Open Dataset - Initialize or open existing dataset
- * 3. Analyze Data - Parse JSON structure and identify fields
- * 4. Configure Fields - Set searchable, word indexing, filterable, facetable, and sortable properties
- * 5. Load Data - Stream JSON data to the search server
- * 6. Index Dataset - Build search indexes for fast querying
- * 7. Test Search - Verify dataset with a sample query
- *
- * Field Types Explained:
- * - Searchable: Fields that can be queried with full-text search (e.g., title, description)
- * - Word Indexing: Fields that use word-level indexing for enhanced search capabilities
- * - Filterable: Fields that can be used to filter results (e.g., genre, year)
- * - Facetable: Fields that can be aggregated for faceted navigation (e.g., category counts)
- * - Sortable: Fields that can be used to sort results (e.g., popularity, date)
- */
-export async function loadDataset(datasetName: string, config: DatasetConfig, client: AxiosInstance, uri: string): Promise<void> {
-  // ━━━ Step 0: Load and Validate Configuration ━━━
-  if (config === null) {
-    ConsoleHelper.writeError(`Unknown dataset: ${datasetName}`);
-    ConsoleHelper.writeInfo(`Available datasets: ${['tmdb', 'pokedex'].join(', ')}`);
-    return;
-  }
+      // The set endpoints only add settings, so fields configured by an earlier load stay set
+      const plan = await planFields(client, config);
+      if (!plan.hasChanges) {
+        return { message: 'Field configuration verified' };
+      }
+      const drift = describeFieldPlan(plan);
+      this.emit('warning', {
+        step: 'verify',
+        message: `Server field configuration differs from the config (${drift.length} difference${drift.length === 1 ? '' : 's'}); run "apply ${config.name}" to reconcile`
+      });
+      return { message: 'Field configuration verified with drift', details: drift };
+    });
+    if (!verified) return finish();
+
+    // ━━━ Step 7: Create Filters and Boosts ━━━
+    const filtered = await this.runStep(result, 'filters', 'Creating filters and boosts...', async () => {
+      if (resuming) return RESUMED;
+
+      if (!config.filters?.length && !config.boosts?.length) {
+        return { message: 'No filters defined', status: 'skipped' };
+      }
 
-  // Validate data file exists
-  if (!fs.existsSync(config.filePath)) {
-    ConsoleHelper.writeError(`Data file not found: ${config.filePath}`);
-    ConsoleHelper.writeInfo('Please ensure the data file exists in the correct location.');
-    ConsoleHelper.writeInfo(`Expected path: ${path.resolve(config.filePath)}`);
-    return;
-  }
+      try {
+        result.filters = await createConfiguredFilters(client, config);
+      } catch (error: any) {
+        throw new LoadStepError(error.message, { cause: error });
+      }
+      const { filters, boosts } = result.filters;
+      return {
+        message: `Created ${filters.length} filter${filters.length === 1 ? '' : 's'} and ${boosts.length} boost${boosts.length === 1 ? '' : 's'}`,
+        details: [
+          ...filters.map(f => `Filter ${f.name}: ${describeFilter(f.definition)}`),
+          ...boosts.map(b => `Boost ${b.strength}: ${b.filter}`)
+        ]
+      };
+    });
+    if (!filtered) return finish();
+
+    // ━━━ Step 8: Load Data from File ━━━
+    const loadDescription = checkpoint
+      ? `Uploading ${config.filePath} in batches of ${checkpoint.batchSize.toLocaleString()} records...`
+      : `Streaming data from ${config.filePath}...`;
+    const loaded = await this.runStep(result, 'load', loadDescription, async () => {
+      const loadingStartTime = Date.now();
+      if (checkpoint) {
+        await this.uploadBatches(config, source, checkpoint);
+      } else if (source.converted) {
+        await client.loadRecordStream(config.name, () => jsonArrayStream(readDatasetRecords(config, source.transform)));
+      } else {
+        await client.loadStream(config.name, config.filePath);
+      }
 
-  ConsoleHelper.writeHeader(`Loading Dataset: ${config.name}`);
-  ConsoleHelper.writeInfo(`Data file: ${config.filePath}`);
-  const fileStats = fs.statSync(config.filePath);
-  ConsoleHelper.writeInfo(`File size: ${(fileStats.size / 1024 / 1024).toFixed(2)} MB`);
-  console.log();
-
-  // ━━━ Step 2: Create or Open Dataset ━━━
-  ConsoleHelper.writeInfo('Creating or opening dataset...');
-  try {
-    const createSuccess = await createOrOpenDataSet(SEARCH_CONTROLLER_ROUTE, config.name, client);
-    if (!createSuccess) {
-      ConsoleHelper.writeError('Failed to create or open dataset.');
-      ConsoleHelper.writeInfo('Troubleshooting:');
-      ConsoleHelper.writeInfo('  1. Verify API_URI in .env.local is correct');
-      ConsoleHelper.writeInfo('  2. Ensure IndxCloudApi is running');
-      ConsoleHelper.writeInfo('  3. Check that BEARER_TOKEN is valid (not expired)');
-      return;
-    }
-    ConsoleHelper.writeSuccess('Dataset opened successfully');
-  } catch (error: any) {
-    ConsoleHelper.writeError(`Network error: ${error.message}`);
-    ConsoleHelper.writeInfo('Troubleshooting:');
-    ConsoleHelper.writeInfo(`  - Cannot connect to: ${uri}`);
-    ConsoleHelper.writeInfo('  - Is IndxCloudApi running?');
-    ConsoleHelper.writeInfo('  - Check your firewall settings');
-    return;
-  }
+      // Monitor loading progress
+      await waitForState(client, config.name, 'loaded', status => status.systemState !== SystemState.Loading, {
+        ...this.options.wait,
+        onPoll: () => this.emit('progress', { step: 'load', message: 'Loading data' })
+      });
+
+      result.loadingTimeMs = Date.now() - loadingStartTime;
+      result.recordCount = await client.getNumberOfJsonRecordsInDb(config.name);
+      return {
+        message: `Data loaded in ${(result.loadingTimeMs / 1000).toFixed(1)} seconds`,
+        details: [`Total records: ${result.recordCount.toLocaleString()}`]
+      };
+    });
+    if (!loaded) return finish();
+
+    // ━━━ Step 9: Build Search Index ━━━
+    if (!await this.buildIndex(result, config)) return finish();
+
+    // ━━━ Step 10: Run Test Search ━━━
+    const searched = await this.runStep(result, 'testSearch', `Search query: "${config.testQuery}"`, async () => {
+      const query: CloudQuery = {
+        text: config.testQuery,
+        maxNumberOfRecordsToReturn: 5,
+        sortBy: config.sortableFields[0] || '',
+        enableFacets: false,
+        enableBoost: false
+      };
 
-  // ━━━ Step 3: Analyze Data Structure ━━━
-  ConsoleHelper.writeInfo('Analyzing data structure...');
-  const status0 = await analyze(config.name, config.filePath, client);
-  if (status0 === null) {
-    ConsoleHelper.writeError('Failed to analyze data file');
-    return;
-  }
-  ConsoleHelper.writeSuccess('Data structure analyzed');
-
-  // Get initial status (for verification)
-  await getStatus(config.name, client);
-
-  // ━━━ Step 4: Discover and Display All Fields ━━━
-  ConsoleHelper.writeInfo('Discovering fields in dataset...');
-  const list = await getAllFields(config.name, client);
-  ConsoleHelper.writeSuccess(`Found ${list.length} fields`);
-  ConsoleHelper.writeInfo(`Fields: ${list.join(', ')}`);
-  console.log();
-
-  // ━━━ Step 5: Configure Searchable Fields ━━━
-  // Searchable fields are used for full-text search queries.
-  // Weight determines relevance (High > Med > Low) in search results.
-  ConsoleHelper.writeInfo('Configuring searchable fields...');
-  const myres = await setSearchableFields(config.name, config.searchableFields, client);
-  if (!myres) {
-    ConsoleHelper.writeError('Failed to set searchable fields');
-    return;
-  }
-  ConsoleHelper.writeSuccess(`Configured ${config.searchableFields.length} searchable fields`);
-  for (const field of config.searchableFields) {
-    ConsoleHelper.writeInfo(`  - ${field.name} (weight: ${field.weight})`);
-  }
+      const res = await client.search(query, config.name);
+      const hits: SearchHit[] = (res.records ?? []).map((r: { documentKey: number; score: number }) => ({
+        documentKey: r.documentKey,
+        score: r.score
+      }));
+      result.testSearch = { query: config.testQuery, hits };
 
-  // ━━━ Step 6: Configure Filterable Fields ━━━
-  // Filterable fields can be used in filter expressions (e.g., year > 2020).
-  ConsoleHelper.writeInfo('Configuring filterable fields...');
-  const myres2 = await setFilterableFields(config.name, config.filterableFields, client);
-  if (!myres2) {
-    ConsoleHelper.writeError('Failed to set filterable fields');
-    return;
-  }
-  ConsoleHelper.writeSuccess(`Configured ${config.filterableFields.length} filterable fields`);
-
-  // ━━━ Step 7: Configure Facetable Fields ━━━
-  // Facetable fields enable aggregated counts for filtering UI (e.g., Genre: Action (42)).
-  ConsoleHelper.writeInfo('Configuring facetable fields...');
-  const facetsResult = await setFacetableFields(config.name, config.facetableFields, client);
-  if (!facetsResult) {
-    ConsoleHelper.writeError('Failed to set facetable fields');
-    return;
-  }
-  ConsoleHelper.writeSuccess(`Configured ${config.facetableFields.length} facetable fields`);
-
-  // ━━━ Step 8: Configure Sortable Fields ━━━
-  // Sortable fields allow results to be ordered (e.g., sort by popularity desc).
-  ConsoleHelper.writeInfo('Configuring sortable fields...');
-  const sortres = await setSortableFields(config.name, config.sortableFields, client);
-  if (!sortres) {
-    ConsoleHelper.writeError('Failed to set sortable fields');
-    return;
-  }
-  ConsoleHelper.writeSuccess(`Configured ${config.sortableFields.length} sortable fields`);
-
-  // ━━━ Step 9: Configure Word Indexing Fields ━━━
-  // Word indexing fields enable word-level indexing for specific fields.
-  ConsoleHelper.writeInfo('Configuring word indexing fields...');
-  const wordIndexRes = await setWordIndexingFields(config.name, config.wordIndexingFields, client);
-  if (!wordIndexRes) {
-    ConsoleHelper.writeError('Failed to set word indexing fields');
-    return;
-  }
-  ConsoleHelper.writeSuccess(`Configured ${config.wordIndexingFields.length} word indexing fields`);
-  for (const field of config.wordIndexingFields) {
-    ConsoleHelper.writeInfo(`  - ${field}`);
-  }
-  console.log();
-
-  // ━━━ Step 10: Verify Field Configuration ━━━
-  ConsoleHelper.writeInfo('Verifying field configuration...');
-  await getSearchableFields(config.name, client);
-  await getSortableFields(config.name, client);
-  await getFacetableFields(config.name, client);
-  await getFilterableFields(config.name, client);
-  await getWordIndexingFields(config.name, client);
-  ConsoleHelper.writeSuccess('Field configuration verified');
-  console.log();
-
-  // Create filters (optional - dataset specific examples)
-  if (config.name === 'pokedex') {
-    const filter: RangeFilterProxy = {
-      fieldName: 'speed',
-      lowerLimit: 10.5,
-      upperLimit: 50.0
-    };
+      if (hits.length === 0) {
+        throw new LoadStepError('Search returned no results');
+      }
+
+      for (const hit of hits) {
+        const rec = await client.getJson(config.name, [hit.documentKey]);
+        hit.record = rec[0];
+      }
+      return { message: `Found ${hits.length} results` };
+    });
+    if (!searched) return finish();
 
-    const filt1 = await createRangeFilter(config.name, filter, client);
+    // ━━━ Step 11: Check Relevance ━━━
+    if (!await this.checkRelevance(result, config)) return finish();
 
-    const vf: ValueFilterProxy = {
-      fieldName: 'speed',
-      value: 50
+    if (checkpoint) {
+      deleteCheckpoint(config.name, this.options.upload?.stateDir);
+    }
+    result.success = true;
+    return finish();
+  }
+
+  /**
+   * Update a dataset from its data file, sending only records that changed since `previous`
+   *
+   * Records are matched by `config.keyField` (default "id") and compared by content hash.
+   * New and changed records are uploaded, records missing from the file are deleted by
+   * document key, and the dataset is re-indexed when anything changed. Field settings are
+   * left alone (use plan/apply for those).
+   *
+   * This relies on the server storing each record under its `keyField` value as document key, and
+   * replacing the stored record when one with the same key is uploaded. Both are checked: the keys
+   * must be numeric, a sample of them is read back before anything is sent, and the record count is
+   * compared after the upload.
+   */
+  async sync(config: DatasetConfig, previous: Manifest): Promise<SyncResult> {
+    const startTime = Date.now();
+    const client = this.client;
+    const keyField = config.keyField ?? DEFAULT_KEY_FIELD;
+    const result: SyncResult = {
+      dataset: config.name,
+      success: false,
+      steps: [],
+      fields: [],
+      recordCount: 0,
+      loadingTimeMs: 0,
+      indexingTimeMs: 0,
+      totalTimeMs: 0,
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0
     };
 
-    const filt2 = await createValueFilter(config.name, vf, client);
+    const finish = (): SyncResult => {
+      result.totalTimeMs = Date.now() - startTime;
+      return result;
+    };
+
+    // ━━━ Step 1: Validate Data File ━━━
+    const source = await this.validateFile(result, config);
+    if (!source) return finish();
+
+    // ━━━ Step 2: Validate Records ━━━
+    if (!await this.profileData(result, config, source, false)) return finish();
 
-    if (filt1 && filt2) {
-      const cf: CombinedFilterProxy = {
-        a: filt1,
-        b: filt2,
-        useAndOperation: true
+    // ━━━ Step 3: Compare With the Previous Load ━━━
+    let diff: RecordDiff | undefined;
+    const diffed = await this.runStep(result, 'diff', `Comparing ${config.filePath} with the previous load...`, async () => {
+      try {
+        diff = await diffRecords(previous, readDatasetRecords(config, source.transform), keyField);
+      } catch (error: any) {
+        throw new LoadStepError(error.message, { cause: error });
+      }
+      for (const key of diff.duplicates) {
+        this.emit('warning', { step: 'diff', message: `Duplicate ${keyField} "${key}"; the last record wins` });
+      }
+      await this.verifyDocumentKeys(config.name, keyField, previous);
+
+      result.added = diff.added;
+      result.updated = diff.updated;
+      result.deleted = diff.removed.length;
+      result.unchanged = diff.unchanged;
+      return {
+        message: `${result.added} added, ${result.updated} updated, ${result.deleted} deleted, ${result.unchanged} unchanged`
       };
-      const combFilt = await combineFilters(config.name, cf, client);
+    });
+    if (!diffed || !diff) return finish();
+    const { changed, removed, manifest } = diff;
+
+    // ━━━ Step 4: Upload New and Changed Records ━━━
+    const upserted = await this.runStep(result, 'upsert', `Uploading ${changed.length} records...`, async () => {
+      if (changed.length === 0) {
+        return { message: 'No records to upload', status: 'skipped' };
+      }
 
-      if (combFilt) {
-        const bp: BoostProxy = {
-          filterProxy: combFilt,
-          boostStrength: BoostStrength.High
-        };
+      const loadingStartTime = Date.now();
+      const before = await client.getNumberOfJsonRecordsInDb(config.name);
+      await client.loadRecords(config.name, changed);
+      await waitForState(client, config.name, 'loaded', status => status.systemState !== SystemState.Loading, {
+        ...this.options.wait,
+        onPoll: () => this.emit('progress', { step: 'upsert', message: 'Uploading records' })
+      });
+
+      // Changed records that were added next to the old ones instead of replacing them show up here
+      const after = await client.getNumberOfJsonRecordsInDb(config.name);
+      if (after !== before + result.added) {
+        throw new LoadStepError(
+          `The dataset holds ${after} records after uploading ${result.added} new and ${result.updated} changed records to ${before}; ` +
+          `expected ${before + result.added}. The server did not replace the changed records by ${keyField}, so run a full load`
+        );
+      }
+      result.loadingTimeMs = Date.now() - loadingStartTime;
+      return { message: `Uploaded ${changed.length} records in ${(result.loadingTimeMs / 1000).toFixed(1)} seconds` };
+    });
+    if (!upserted) return finish();
+
+    // ━━━ Step 5: Delete Removed Records ━━━
+    const deleted = await this.runStep(result, 'delete', `Deleting ${removed.length} records...`, async () => {
+      if (removed.length === 0) {
+        return { message: 'No records to delete', status: 'skipped' };
+      }
 
-        await createBoost(config.name, bp, client);
+      for (const documentKey of removed) {
+        try {
+          await client.deleteDocument(config.name, documentKey);
+        } catch (error) {
+          if (!(error instanceof IndxNotFoundError)) throw error;
+          this.emit('warning', { step: 'delete', message: `Document ${documentKey} was already gone` });
+        }
       }
+      return { message: `Deleted ${removed.length} records` };
+    });
+    if (!deleted) return finish();
+
+    // ━━━ Step 6: Rebuild Search Index ━━━
+    if (changed.length > 0 || removed.length > 0) {
+      if (!await this.buildIndex(result, config)) return finish();
     }
-  }
 
-  // ━━━ Step 11: Load Data from File ━━━
-  ConsoleHelper.writeHeader('Loading Data');
-  ConsoleHelper.writeInfo(`Streaming data from ${config.filePath}...`);
+    // ━━━ Step 7: Check Relevance ━━━
+    if (!await this.checkRelevance(result, config)) return finish();
+
+    result.recordCount = await client.getNumberOfJsonRecordsInDb(config.name);
+    result.manifest = manifest;
+    result.success = true;
+    return finish();
+  }
+
+  /**
+   * Make a blue/green version current and delete the versions beyond the retention count
+   * Returns false when the pointer could not be written; failed deletions are only warnings.
+   */
+  private async promote(result: LoadResult, dataset: string, version: string, options: BlueGreenLoadOptions): Promise<boolean> {
+    const retain = options.retain ?? DEFAULT_RETAIN;
+    const expired: string[] = [];
+
+    const promoted = await this.runStep(result, 'promote', `Promoting ${version}...`, async () => {
+      const previous = readReleases(dataset, options.stateDir);
+      const promotion = promoteVersion(previous, dataset, {
+        name: version,
+        promotedAt: new Date().toISOString(),
+        recordCount: result.recordCount
+      }, retain);
+      writeReleases(promotion.pointer, options.stateDir);
+      expired.push(...promotion.expired);
+      // A previous version beyond the retention count is deleted below, so there is nothing to roll back to
+      const details = !previous ? [] : promotion.expired.includes(previous.current)
+        ? [`Previous version: ${previous.current} (removed, only ${retain} version${retain === 1 ? ' is' : 's are'} kept; rollback is not possible)`]
+        : [`Previous version: ${previous.current} (switch back with "rollback ${dataset}")`];
+      return { message: `${dataset} now serves ${version}`, details };
+    });
+    if (!promoted) return false;
+
+    await this.runStep(result, 'cleanup', `Keeping the newest ${retain} version${retain === 1 ? '' : 's'}...`, async () => {
+      if (expired.length === 0) {
+        return { message: 'No old versions to delete', status: 'skipped' };
+      }
 
-  const loadFromDb = false;
-  let result2: boolean;
-  if (!loadFromDb) {
-    result2 = await loadStreamAsync(config.name, config.filePath, client);
-    if (!result2) {
-      ConsoleHelper.writeError('Failed to load data');
+      const deleted: string[] = [];
+      for (const name of expired) {
+        try {
+          await this.client.deleteDataSet(name);
+          deleted.push(name);
+        } catch (error: any) {
+          if (error instanceof IndxNotFoundError) {
+            deleted.push(name);
+            continue;
+          }
+          this.emit('warning', { step: 'cleanup', message: `Could not delete ${name}: ${error.message}; delete it with "delete ${name}"` });
+        }
+      }
+      return {
+        message: `Deleted ${deleted.length} old version${deleted.length === 1 ? '' : 's'}`,
+        details: deleted
+      };
+    });
+    return true;
+  }
+
+  /**
+   * Delete a blue/green version whose load failed, so it does not linger on the server
+   * The failure stays the result of the load; problems here are only warnings.
+   */
+  private async discardVersion(result: LoadResult, version: string, live: string | undefined): Promise<void> {
+    deleteCheckpoint(version, this.options.upload?.stateDir);
+    const kept = live ? `${live} is still current` : 'nothing was promoted';
+    if (!result.steps.some(s => s.step === 'create' && s.status === 'success')) {
+      this.emit('warning', { step: result.failedStep ?? 'validate', message: `${version} was not created; ${kept}` });
       return;
     }
+
+    try {
+      await this.client.deleteDataSet(version);
+      this.emit('warning', { step: result.failedStep ?? 'validate', message: `Deleted the unfinished version ${version}; ${kept}` });
+    } catch (error: any) {
+      this.emit('warning', {
+        step: result.failedStep ?? 'validate',
+        message: `Could not delete the unfinished version ${version} (${error.message}); ${kept}`
+      });
+    }
   }
 
-  // Monitor loading progress
-  let proceed = true;
-  const loadingStartTime = new Date();
-  let dotCount = 0;
-  let status = await getStatus(config.name, client);
+  /**
+   * Find or start the checkpoint for a batched upload; null when uploading in one request
+   * A checkpoint that cannot be resumed is discarded with a warning.
+   */
+  private prepareCheckpoint(config: DatasetConfig): UploadCheckpoint | null {
+    const upload = this.options.upload;
+    const existing = readCheckpoint(config.name, upload?.stateDir);
+
+    if (existing && upload?.resume) {
+      const batchSize = upload.batchSize ?? existing.batchSize;
+      const mismatch = checkpointMismatch(existing, config.filePath, batchSize);
+      if (mismatch === null) {
+        this.emit('progress', {
+          step: 'validate',
+          message: `Resuming upload: ${existing.completedBatches.length} batches (${existing.recordsSent.toLocaleString()} records) already sent`
+        });
+        return existing;
+      }
+      this.emit('warning', { step: 'validate', message: `Cannot resume the interrupted upload: ${mismatch}; starting over` });
+    } else if (existing) {
+      this.emit('warning', {
+        step: 'validate',
+        message: `Discarding the checkpoint of an interrupted upload (${existing.completedBatches.length} batches sent); use --resume to continue it`
+      });
+    } else if (upload?.resume) {
+      this.emit('warning', { step: 'validate', message: 'No interrupted upload to resume; starting a new one' });
+    }
 
-  do {
-    dotCount++;
-    ConsoleHelper.writeProgress(`Loading data${'.'.repeat(dotCount % 4)}   `);
+    if (existing) {
+      deleteCheckpoint(config.name, upload?.stateDir);
+    }
+    return upload ? createCheckpoint(config.name, config.filePath, upload.batchSize ?? existing?.batchSize ?? DEFAULT_BATCH_SIZE) : null;
+  }
+
+  /**
+   * Send the records in batches, waiting for the server to finish each one
+   * Every accepted batch is recorded in the checkpoint; batches already in it are skipped.
+   */
+  private async uploadBatches(config: DatasetConfig, source: DataSource, checkpoint: UploadCheckpoint): Promise<void> {
+    const stateDir = this.options.upload?.stateDir;
+    const completed = new Set(checkpoint.completedBatches);
+    writeCheckpoint(checkpoint, stateDir);
+
+    let batch: DataRecord[] = [];
+    let batchIndex = 0;
+    let batchRecords = 0;
+
+    const send = async (): Promise<void> => {
+      if (!completed.has(batchIndex)) {
+        await this.client.loadRecords(config.name, batch);
+        await waitForState(this.client, config.name, 'loaded', status => status.systemState !== SystemState.Loading, this.options.wait);
+
+        checkpoint.completedBatches.push(batchIndex);
+        checkpoint.recordsSent += batch.length;
+        writeCheckpoint(checkpoint, stateDir);
+        this.emit('progress', {
+          step: 'load',
+          message: `Uploaded batch ${batchIndex + 1} (${checkpoint.recordsSent.toLocaleString()} records)`
+        });
+      }
+      batch = [];
+      batchRecords = 0;
+      batchIndex++;
+    };
 
-    status = await getStatus(config.name, client);
-    if (status !== null) {
-      proceed = status.systemState === SystemState.Loading;
-    } else {
-      proceed = false;
+    for await (const record of readDatasetRecords(config, source.transform)) {
+      // Records of completed batches are read past without being kept
+      if (!completed.has(batchIndex)) {
+        batch.push(record);
+      }
+      if (++batchRecords === checkpoint.batchSize) {
+        await send();
+      }
+    }
+    if (batchRecords > 0) {
+      await send();
     }
-    await new Promise(resolve => setTimeout(resolve, 100));
-  } while (proceed);
-
-  console.log(); // New line after progress
-  const loadingDuration = (new Date().getTime() - loadingStartTime.getTime()) / 1000;
-  ConsoleHelper.writeSuccess(`Data loaded in ${loadingDuration.toFixed(1)} seconds`);
-
-  // Get record count
-  const numberOfRecords = await getNumberOfJsonRecordsInDb(config.name, client);
-  ConsoleHelper.writeInfo(`Total records: ${numberOfRecords.toLocaleString()}`);
-  console.log();
-
-  // ━━━ Step 12: Build Search Index ━━━
-  ConsoleHelper.writeHeader('Building Search Index');
-  ConsoleHelper.writeInfo('Indexing dataset (this may take a moment)...');
-
-  const success = await indexDataSet(config.name, client);
-  if (!success) {
-    ConsoleHelper.writeError('Failed to start indexing');
-    return;
   }
 
-  // Monitor indexing progress
-  proceed = true;
-  const indexingStartTime = new Date();
-  dotCount = 0;
-  do {
-    dotCount++;
-    ConsoleHelper.writeProgress(`Indexing${'.'.repeat(dotCount % 4)}   `);
-
-    status = await getStatus(config.name, client);
-    if (status !== null) {
-      proceed = status.systemState !== SystemState.Ready;
-    } else {
-      proceed = false;
+  /**
+   * Read a sample of the previously loaded records back by their keys, to check that the server
+   * stores records under their `keyField` value; a sync would otherwise change the wrong documents
+   */
+  private async verifyDocumentKeys(dataset: string, keyField: string, previous: Manifest): Promise<void> {
+    const sample = Object.keys(previous.records).slice(0, DOCUMENT_KEY_SAMPLE_SIZE).map(Number);
+    if (sample.length === 0) {
+      return;
     }
-    await new Promise(resolve => setTimeout(resolve, 100));
-  } while (proceed);
-
-  console.log(); // New line after progress
-  const indexingDuration = (new Date().getTime() - indexingStartTime.getTime()) / 1000;
-  ConsoleHelper.writeSuccess(`Index built in ${indexingDuration.toFixed(1)} seconds`);
-  console.log();
-
-  // ━━━ Step 13: Run Test Search ━━━
-  ConsoleHelper.writeHeader('Running Test Search');
-  ConsoleHelper.writeInfo(`Search query: "${config.testQuery}"`);
-
-  const query: CloudQuery = {
-    text: config.testQuery,
-    maxNumberOfRecordsToReturn: 5,
-    sortBy: config.sortableFields[0] || '',
-    enableFacets: false,
-    enableBoost: false
-  };
 
-  const res = await search(query, config.name, client);
-  if (res === null || !res.records || res.records.length === 0) {
-    ConsoleHelper.writeError('Search returned no results');
-    return;
+    const records = await this.client.getJson(dataset, sample);
+    let found = 0;
+    for (const [index, json] of records.entries()) {
+      if (!json) {
+        continue;
+      }
+      const value = (JSON.parse(json) as DataRecord)[keyField];
+      if (String(value) !== String(sample[index])) {
+        throw new LoadStepError(
+          `Document ${sample[index]} holds the record with ${keyField} "${value}": the server does not store records ` +
+          `under their ${keyField}, so an incremental load would change the wrong documents. Run a full load`
+        );
+      }
+      found++;
+    }
+    if (found === 0) {
+      throw new LoadStepError(
+        `None of the previously loaded records were found under their ${keyField} (${sample.slice(0, 3).join(', ')}, ...): ` +
+        `the server does not store records under their ${keyField}, or the dataset was reloaded. Run a full load`
+      );
+    }
   }
 
-  const resultsCount = res.records.length;
-  ConsoleHelper.writeSuccess(`Found ${resultsCount} results`);
-  console.log();
-
-  // Display top results
-  let resultNum = 1;
-  for (const item of res.records) {
-    const rec = await getJson(config.name, [item.documentKey], client);
-    console.log(`Result ${resultNum}:`);
-    ConsoleHelper.writeInfo(`  Score: ${item.score.toFixed(2)}`);
-    ConsoleHelper.writeInfo(`  Document Key: ${item.documentKey}`);
-    ConsoleHelper.writeInfo(`  Data: ${rec[0]}`);
-    console.log();
-    resultNum++;
+  /**
+   * Check that the data file exists and prepare the transform pipeline
+   * Returns null when the step failed
+   */
+  private async validateFile(result: LoadResult, config: DatasetConfig): Promise<DataSource | null> {
+    const input = resolveInput(config.filePath, config.input);
+    const source: DataSource = { converted: !isPlainJson(config.filePath, config.input) };
+    const validated = await this.runStep(result, 'validate', `Checking data file ${config.filePath}`, async () => {
+      if (!fs.existsSync(config.filePath)) {
+        throw new LoadStepError(`Data file not found: ${config.filePath} (expected path: ${path.resolve(config.filePath)})`);
+      }
+      const fileStats = fs.statSync(config.filePath);
+      const details = [`File size: ${(fileStats.size / 1024 / 1024).toFixed(2)} MB`];
+      if (source.converted) {
+        details.push(`Format: ${input.format}${input.compression === 'gzip' ? ' (gzip)' : ''}, converted to JSON while streaming`);
+      }
+
+      if (config.transforms?.length) {
+        source.transform = await createRecordTransform(config.transforms);
+        source.converted = true;
+        details.push(`Transforms: ${config.transforms.map(t => Object.keys(t)[0]).join(' -> ')}`);
+      }
+      return { message: `Data file: ${config.filePath}`, details };
+    });
+    return validated ? source : null;
+  }
+
+  /**
+   * Profile the records and check the configured fields against them
+   * Fails the step when the data breaks the thresholds in config.validation; returns false then.
+   */
+  private profileData(result: LoadResult, config: DatasetConfig, source: DataSource, resuming: boolean): Promise<boolean> {
+    return this.runStep(result, 'profile', 'Validating records against the field configuration...', async () => {
+      if (resuming) return RESUMED;
+      if (this.options.skipValidation || config.validation?.skip) {
+        return { message: 'Data validation skipped', status: 'skipped' };
+      }
+
+      const report = await validateRecords(config, readDatasetRecords(config, source.transform), {
+        onProgress: count => this.emit('progress', { step: 'profile', message: `Profiling records (${count.toLocaleString()})` })
+      });
+      result.validation = report;
+
+      const fieldLines = report.fields.map(describeFieldReport);
+      const errors = report.issues.filter(i => i.severity === 'error').map(i => `Error: ${describeDataIssue(i)}`);
+      for (const issue of report.issues.filter(i => i.severity === 'warning')) {
+        this.emit('warning', { step: 'profile', message: describeDataIssue(issue) });
+      }
+
+      if (!report.passed) {
+        const reason = report.errors > 0
+          ? `${report.errors} error${report.errors === 1 ? '' : 's'}`
+          : `${report.warnings} warning${report.warnings === 1 ? '' : 's'} (strict mode)`;
+        throw new LoadStepError(`Data validation failed with ${reason}`, { details: [...fieldLines, ...errors] });
+      }
+      return {
+        message: `Validated ${report.recordCount.toLocaleString()} records`,
+        details: fieldLines
+      };
+    });
   }
 
-  // ━━━ Final Summary ━━━
-  ConsoleHelper.writeSummary('Dataset Load Complete', {
-    'Dataset': config.name,
-    'Total Records': numberOfRecords.toLocaleString(),
-    'Searchable Fields': config.searchableFields.length,
-    'Word Indexing Fields': config.wordIndexingFields.length,
-    'Filterable Fields': config.filterableFields.length,
-    'Facetable Fields': config.facetableFields.length,
-    'Sortable Fields': config.sortableFields.length,
-    'Loading Time': `${loadingDuration.toFixed(1)}s`,
-    'Indexing Time': `${indexingDuration.toFixed(1)}s`,
-    'Test Query Results': resultsCount
-  });
-
-  ConsoleHelper.writeSuccess('Dataset is ready for use!');
-  console.log();
+  /**
+   * Run the golden queries of the config; the step fails when a threshold or required rank is missed
+   */
+  private checkRelevance(result: LoadResult, config: DatasetConfig): Promise<boolean> {
+    const queries = config.relevance?.queries ?? [];
+    return this.runStep(result, 'relevance', `Running ${queries.length} golden queries...`, async () => {
+      if (queries.length === 0) {
+        return { message: 'No golden queries defined', status: 'skipped' };
+      }
+
+      const report = await runRelevanceSuite(this.client, config);
+      result.relevance = report;
+
+      const details = report.queries.flatMap((evaluation, idx) =>
+        describeQueryEvaluation(evaluation, queries[idx].expected, report.k));
+      const scores = `precision@${report.k} ${report.precision.toFixed(3)}, recall@${report.k} ${report.recall.toFixed(3)}, MRR ${report.mrr.toFixed(3)}`;
+      if (!report.passed) {
+        throw new LoadStepError(`Relevance check failed: ${scores}`, {
+          details: [...details, ...report.failures.map(f => `Failed: ${f}`)]
+        });
+      }
+      return { message: `Relevance: ${scores}`, details };
+    });
+  }
+
+  /**
+   * Start indexing and wait until the dataset is ready
+   */
+  private buildIndex(result: LoadResult, config: DatasetConfig): Promise<boolean> {
+    return this.runStep(result, 'index', 'Indexing dataset (this may take a moment)...', async () => {
+      const indexingStartTime = Date.now();
+      await this.client.indexDataSet(config.name);
+
+      // Monitor indexing progress
+      await waitForState(this.client, config.name, 'Ready', status => status.systemState === SystemState.Ready, {
+        ...this.options.wait,
+        onPoll: () => this.emit('progress', { step: 'index', message: 'Indexing' })
+      });
+
+      result.indexingTimeMs = Date.now() - indexingStartTime;
+      return { message: `Index built in ${(result.indexingTimeMs / 1000).toFixed(1)} seconds` };
+    });
+  }
+
+  /**
+   * Run one step, emitting stepStarted/stepCompleted and recording its StepResult
+   * Returns false when the step failed
+   */
+  private async runStep(result: LoadResult, step: LoadStep, description: string, body: () => Promise<StepOutcome>): Promise<boolean> {
+    this.emit('stepStarted', { step, description });
+    const startedAt = new Date();
+
+    let stepResult: StepResult;
+    try {
+      const outcome = await body();
+      stepResult = {
+        step,
+        status: outcome.status ?? 'success',
+        message: outcome.message,
+        details: outcome.details ?? [],
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime()
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      stepResult = {
+        step,
+        status: 'failed',
+        message: err.message,
+        details: err instanceof LoadStepError ? err.details : [],
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        error: err
+      };
+      result.failedStep = step;
+      result.error = err;
+    }
+
+    result.steps.push(stepResult);
+    this.emit('stepCompleted', stepResult);
+    return stepResult.status !== 'failed';
+  }
+
+  /**
+   * Apply one field category, reporting progress; failures are rethrown with the category name
+   */
+  private async configureFields(kind: string, count: number, apply: () => Promise<void>): Promise<void> {
+    this.emit('progress', { step: 'configure', message: `Configuring ${kind} fields...` });
+    try {
+      await apply();
+    } catch (error: any) {
+      throw new LoadStepError(`Failed to set ${kind} fields: ${error.message}`, { cause: error });
+    }
+    this.emit('progress', { step: 'configure', message: `Configured ${count} ${kind} fields` });
+  }
+}
+
+/**
+ * Load a dataset and return a structured result
+ * Convenience wrapper around DatasetLoader for callers that only need some of the events
+ */
+export async function loadDataset(config: DatasetConfig, client: IndxClient, listeners: Partial<LoaderEvents> = {}): Promise<LoadResult> {
+  const loader = new DatasetLoader(client);
+  for (const event of Object.keys(listeners) as (keyof LoaderEvents)[]) {
+    addListener(loader, event, listeners[event]);
+  }
+  return loader.load(config);
+}
+
+function addListener<E extends keyof LoaderEvents>(loader: DatasetLoader, event: E, listener: LoaderEvents[E] | undefined): void {
+  if (listener) {
+    loader.on(event, listener);
+  }
 }
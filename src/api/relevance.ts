@@ -0,0 +1,178 @@
+/**
+ * Relevance regression suite
+ * Runs the golden queries of a DatasetConfig and scores the results with precision@k, recall@k and MRR
+ */
+import { CloudQuery } from '@indxsearch/indx-types';
+import { DatasetConfig, ExpectedHit, GoldenQuery, RelevanceOptions } from '../config/dataset-config.js';
+import { IndxClient } from './indx-client.js';
+import { createFilterFromExpression } from './filters.js';
+
+export const DEFAULT_RELEVANCE_K = 10;
+
+export interface QueryEvaluation {
+  query: string;
+  /** Document keys returned, best first (at most k) */
+  hits: number[];
+  /** Relevant records found in the top k / k */
+  precision: number;
+  /** Relevant records found in the top k / relevant records */
+  recall: number;
+  /** 1 / rank of the first relevant record, 0 when none is in the top k */
+  reciprocalRank: number;
+  /** Relevant records that were not returned in the top k */
+  missing: number[];
+  /** Records with a required rank that came back lower (or not at all) */
+  rankFailures: { key: number; rank: number; actual?: number }[];
+}
+
+export interface RelevanceReport {
+  dataset: string;
+  k: number;
+  queries: QueryEvaluation[];
+  /** Means over all queries */
+  precision: number;
+  recall: number;
+  mrr: number;
+  /** Why the suite failed: thresholds missed and rank requirements broken */
+  failures: string[];
+  passed: boolean;
+}
+
+function expectedKey(hit: ExpectedHit): number {
+  return typeof hit === 'number' ? hit : hit.key;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Score one query's results against its expected hits
+ */
+export function evaluateQuery(golden: GoldenQuery, hits: number[], k: number): QueryEvaluation {
+  const top = hits.slice(0, k);
+  const relevant = [...new Set(golden.expected.map(expectedKey))];
+  const found = relevant.filter(key => top.includes(key));
+  const firstRelevant = top.findIndex(key => relevant.includes(key));
+
+  const rankFailures: QueryEvaluation['rankFailures'] = [];
+  for (const hit of golden.expected) {
+    if (typeof hit === 'number') continue;
+    const index = hits.indexOf(hit.key);
+    if (index === -1 || index + 1 > hit.rank) {
+      rankFailures.push({ key: hit.key, rank: hit.rank, actual: index === -1 ? undefined : index + 1 });
+    }
+  }
+
+  return {
+    query: golden.query,
+    hits: top,
+    precision: found.length / k,
+    recall: found.length / relevant.length,
+    reciprocalRank: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    missing: relevant.filter(key => !top.includes(key)),
+    rankFailures
+  };
+}
+
+/**
+ * Combine query evaluations into a report and check the thresholds
+ */
+export function summarizeRelevance(dataset: string, options: RelevanceOptions, queries: QueryEvaluation[]): RelevanceReport {
+  const k = options.k ?? DEFAULT_RELEVANCE_K;
+  const report: RelevanceReport = {
+    dataset,
+    k,
+    queries,
+    precision: mean(queries.map(q => q.precision)),
+    recall: mean(queries.map(q => q.recall)),
+    mrr: mean(queries.map(q => q.reciprocalRank)),
+    failures: [],
+    passed: false
+  };
+
+  const thresholds: [string, number, number | undefined][] = [
+    [`precision@${k}`, report.precision, options.minPrecision],
+    [`recall@${k}`, report.recall, options.minRecall],
+    ['MRR', report.mrr, options.minMrr]
+  ];
+  for (const [name, value, min] of thresholds) {
+    if (min !== undefined && value < min) {
+      report.failures.push(`${name} ${value.toFixed(3)} is below ${min}`);
+    }
+  }
+  for (const evaluation of queries) {
+    for (const failure of evaluation.rankFailures) {
+      const actual = failure.actual === undefined ? 'not returned' : `at rank ${failure.actual}`;
+      report.failures.push(`"${evaluation.query}": #${failure.key} ${actual}, expected rank ${failure.rank} or better`);
+    }
+  }
+
+  report.passed = report.failures.length === 0;
+  return report;
+}
+
+/**
+ * Run every golden query of the config against the dataset
+ * At least k results are requested per query, so ranks below k can still be reported.
+ */
+export async function runRelevanceSuite(client: IndxClient, config: DatasetConfig, onQuery?: (query: string) => void): Promise<RelevanceReport> {
+  const options = config.relevance ?? { queries: [] };
+  const k = options.k ?? DEFAULT_RELEVANCE_K;
+  const evaluations: QueryEvaluation[] = [];
+
+  for (const golden of options.queries) {
+    onQuery?.(golden.query);
+    const maxRank = Math.max(k, ...golden.expected.map(h => (typeof h === 'number' ? 0 : h.rank)));
+    const query: CloudQuery = {
+      text: golden.query,
+      maxNumberOfRecordsToReturn: maxRank,
+      sortBy: '',
+      enableFacets: false,
+      enableBoost: golden.boost ?? false
+    };
+    if (golden.filter) {
+      query.filter = await createFilterFromExpression(client, config.name, golden.filter);
+    }
+
+    const res = await client.search(query, config.name);
+    const hits = ((res.records ?? []) as { documentKey: number }[]).map(r => r.documentKey);
+    evaluations.push(evaluateQuery(golden, hits, k));
+  }
+
+  return summarizeRelevance(config.name, options, evaluations);
+}
+
+/**
+ * Describe one query's scores and how its results differ from the expected hits
+ *
+ *   "pika"  P@10 0.10  R@10 0.50  RR 1.00
+ *     = #25 at rank 1
+ *     - #26 not in the top 10
+ *     + #172 at rank 2 (not expected)
+ */
+export function describeQueryEvaluation(evaluation: QueryEvaluation, expected: ExpectedHit[], k: number): string[] {
+  const lines = [
+    `"${evaluation.query}"  P@${k} ${evaluation.precision.toFixed(2)}  R@${k} ${evaluation.recall.toFixed(2)}  RR ${evaluation.reciprocalRank.toFixed(2)}`
+  ];
+  const relevant = expected.map(expectedKey);
+  const perfect = evaluation.missing.length === 0 && evaluation.rankFailures.length === 0 &&
+    evaluation.hits.slice(0, relevant.length).every(key => relevant.includes(key));
+  if (perfect) {
+    return lines;
+  }
+
+  evaluation.hits.forEach((key, idx) => {
+    if (relevant.includes(key)) {
+      const failure = evaluation.rankFailures.find(f => f.key === key);
+      lines.push(`  = #${key} at rank ${idx + 1}${failure ? ` (expected rank ${failure.rank} or better)` : ''}`);
+    } else if (idx < relevant.length) {
+      // Only unexpected records that push relevant ones down are worth showing
+      lines.push(`  + #${key} at rank ${idx + 1} (not expected)`);
+    }
+  });
+  for (const key of evaluation.missing) {
+    lines.push(`  - #${key} not in the top ${k}`);
+  }
+  return lines;
+}
@@ -0,0 +1,71 @@
+/**
+ * Retry policy for transient HTTP failures
+ * Exponential backoff with jitter; only idempotent requests are retried
+ */
+import { IndxError, IndxNetworkError } from './errors.js';
+
+export interface RetryEvent {
+  method: string;
+  route: string;
+  /** Attempt that just failed, starting at 1 */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before the next attempt; 0 when the request is not retried */
+  delayMs: number;
+  error: IndxError;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3; 0 disables retries) */
+  retries?: number;
+  /** Base delay for the exponential backoff (default 500 ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 10 s) */
+  maxDelayMs?: number;
+  /** HTTP statuses considered transient */
+  retryStatuses?: number[];
+  /** Called before every retry */
+  onRetry?: (event: RetryEvent) => void;
+  /** Called when a transient failure is not retried because the request is not idempotent */
+  onNotRetried?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+
+// Network error codes worth another attempt; DNS and TLS failures are not
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+/**
+ * Whether an error is worth retrying (transient status or network error)
+ */
+export function isTransientError(error: IndxError, options: RetryOptions = {}): boolean {
+  if (error instanceof IndxNetworkError) {
+    return error.code !== undefined && TRANSIENT_NETWORK_CODES.includes(error.code);
+  }
+  const statuses = options.retryStatuses ?? DEFAULT_RETRY_STATUSES;
+  return error.status !== undefined && statuses.includes(error.status);
+}
+
+/**
+ * Delay before retrying after `attempt` failed attempts
+ * Uses "equal jitter": half the exponential delay plus a random share of the other half
+ */
+export function retryDelay(attempt: number, options: RetryOptions = {}, retryAfterSeconds?: number): number {
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  if (retryAfterSeconds !== undefined && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, maxDelayMs);
+  }
+  const exponential = Math.min((options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** (attempt - 1), maxDelayMs);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Total attempts allowed by the options (first attempt plus retries)
+ */
+export function maxAttempts(options: RetryOptions = {}): number {
+  return Math.max(0, options.retries ?? DEFAULT_RETRIES) + 1;
+}
@@ -0,0 +1,167 @@
+/**
+ * HTTP transport for IndxCloudApi connections
+ * Applies the TLS settings of a server (CA bundle, client certificate, verification) and routes
+ * requests through the proxy in HTTPS_PROXY/HTTP_PROXY unless NO_PROXY exempts the server
+ */
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Duplex } from 'stream';
+import { AxiosProxyConfig } from 'axios';
+import { TlsOptions } from '../config/profiles.js';
+
+export interface Transport {
+  /** Agent for https servers, carrying the TLS settings (and the proxy tunnel) */
+  httpsAgent?: https.Agent;
+  /** Proxy for plain http servers; false so axios does not apply the proxy variables on its own */
+  proxy: AxiosProxyConfig | false;
+  /** Proxy the requests go through, if any */
+  proxyUri: URL | null;
+  /** Whether server certificates are verified */
+  verified: boolean;
+}
+
+/**
+ * Whether NO_PROXY exempts a host
+ * Entries are hosts with an optional port, domains (".example.com" and "example.com" both match
+ * subdomains) or "*" for every host.
+ */
+function exemptFromProxy(host: string, port: string, noProxy: string): boolean {
+  return noProxy.split(/[\s,]+/).filter(entry => entry !== '').some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase())!;
+    const domain = match[1].replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+    return (host === domain || host.endsWith(`.${domain}`)) && (match[2] === undefined || match[2] === port);
+  });
+}
+
+/**
+ * Proxy for a server from HTTPS_PROXY or HTTP_PROXY (either case), or null when none applies
+ */
+export function proxyFor(uri: string, env: NodeJS.ProcessEnv = process.env): URL | null {
+  const target = new URL(uri);
+  const secure = target.protocol === 'https:';
+  const proxy = secure ? env.HTTPS_PROXY ?? env.https_proxy : env.HTTP_PROXY ?? env.http_proxy;
+  if (!proxy) {
+    return null;
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = target.port || (secure ? '443' : '80');
+  if (exemptFromProxy(host, port, env.NO_PROXY ?? env.no_proxy ?? '')) {
+    return null;
+  }
+
+  const proxyUri = new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+  if (proxyUri.protocol !== 'http:') {
+    throw new Error(`Unsupported proxy ${proxyUri.origin}: only http:// proxies are supported`);
+  }
+  return proxyUri;
+}
+
+function proxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * https agent that reaches servers through an HTTP proxy, with a CONNECT tunnel per connection
+ * TLS runs end to end through the tunnel, so the proxy never sees the traffic.
+ */
+class ProxyTunnelAgent extends https.Agent {
+  constructor(private readonly proxy: URL, options: https.AgentOptions) {
+    super(options);
+  }
+
+  override createConnection(options: https.RequestOptions, callback?: (err: Error | null, stream: Duplex) => void): undefined {
+    const host = options.hostname ?? options.host ?? 'localhost';
+    const target = `${host.includes(':') ? `[${host}]` : host}:${options.port ?? 443}`;
+    const authorization = proxyAuthorization(this.proxy);
+
+    const request = http.request({
+      host: this.proxy.hostname,
+      port: this.proxy.port || 80,
+      method: 'CONNECT',
+      path: target,
+      headers: { Host: target, ...(authorization ? { 'Proxy-Authorization': authorization } : {}) }
+    });
+    request.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        callback?.(new Error(`Proxy ${this.proxy.host} refused the connection to ${target} (HTTP ${response.statusCode})`), socket);
+        return;
+      }
+      callback?.(null, tls.connect({
+        ...options,
+        socket,
+        // SNI takes host names only
+        servername: options.servername ?? (net.isIP(host) ? undefined : host)
+      } as tls.ConnectionOptions));
+    });
+    request.once('error', error => {
+      callback?.(new Error(`Cannot reach proxy ${this.proxy.host}: ${error.message}`), request.socket as Duplex);
+    });
+    request.end();
+    return undefined;
+  }
+}
+
+function readPem(file: string, what: string): string {
+  if (!fs.existsSync(file)) {
+    throw new Error(`${what} not found: ${file}`);
+  }
+  return fs.readFileSync(file, 'utf-8');
+}
+
+/**
+ * Build the transport for a server
+ * Certificates are verified unless `insecure` is set, for localhost too; a self-signed development
+ * certificate needs its CA in `caFile` (or `insecure`, which connect() warns about).
+ * Throws when a certificate file cannot be read.
+ */
+export function createTransport(uri: string, options: TlsOptions = {}): Transport {
+  const target = new URL(uri);
+  const proxyUri = proxyFor(uri);
+  const verified = !options.insecure;
+
+  if (Boolean(options.certFile) !== Boolean(options.keyFile)) {
+    throw new Error('A client certificate needs both a certificate file and a key file');
+  }
+  const agentOptions: https.AgentOptions = {
+    rejectUnauthorized: verified,
+    // Added to the built-in CAs, so public servers keep working
+    ca: options.caFile ? [...tls.rootCertificates, readPem(options.caFile, 'CA bundle')] : undefined,
+    cert: options.certFile ? readPem(options.certFile, 'Client certificate') : undefined,
+    key: options.keyFile ? readPem(options.keyFile, 'Client key') : undefined
+  };
+
+  if (target.protocol !== 'https:') {
+    return {
+      proxy: proxyUri
+        ? {
+            protocol: 'http',
+            host: proxyUri.hostname,
+            port: Number(proxyUri.port || 80),
+            auth: proxyUri.username
+              ? { username: decodeURIComponent(proxyUri.username), password: decodeURIComponent(proxyUri.password) }
+              : undefined
+          }
+        : false,
+      proxyUri,
+      verified
+    };
+  }
+  return {
+    httpsAgent: proxyUri ? new ProxyTunnelAgent(proxyUri, agentOptions) : new https.Agent(agentOptions),
+    proxy: false,
+    proxyUri,
+    verified
+  };
+}
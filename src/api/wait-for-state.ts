@@ -0,0 +1,102 @@
+/**
+ * Status polling
+ * Polls GetStatus until a condition holds, with exponential backoff, an overall timeout
+ * and detection of failure states
+ */
+import { SystemStatus, SystemState } from '@indxsearch/indx-types';
+import { IndxClient } from './indx-client.js';
+import { IndxStateError } from './errors.js';
+
+export interface WaitOptions {
+  /** Delay before the second poll (default 100 ms) */
+  intervalMs?: number;
+  /** Upper bound for the delay between polls (default 5 s) */
+  maxIntervalMs?: number;
+  /** Multiplier applied to the delay after every poll (default 1.5; 1 disables backoff) */
+  backoffFactor?: number;
+  /** Give up after this long (default 30 minutes; 0 waits forever) */
+  timeoutMs?: number;
+  /** State names treated as failures, compared case-insensitively (default: DEFAULT_FAILURE_STATES) */
+  failureStates?: string[];
+  /** Called after every poll */
+  onPoll?: (status: SystemStatus, elapsedMs: number) => void;
+}
+
+export interface WaitResult {
+  status: SystemStatus;
+  elapsedMs: number;
+  polls: number;
+}
+
+export const DEFAULT_FAILURE_STATES = ['Error', 'Failed', 'Faulted', 'Invalid', 'Corrupt'];
+
+const DEFAULT_INTERVAL_MS = 100;
+const DEFAULT_MAX_INTERVAL_MS = 5000;
+const DEFAULT_BACKOFF_FACTOR = 1.5;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Get the readable name of a SystemState value (numeric enums map back to their member name)
+ */
+export function stateName(state: unknown): string {
+  const name = (SystemState as Record<string, unknown>)[String(state)];
+  return typeof name === 'string' && typeof state === 'number' ? name : String(state);
+}
+
+/**
+ * Poll the dataset status until `until` returns true
+ * `target` describes the expected state for error messages (e.g. "Ready"). A failure state ends the
+ * wait with an error even when `until` accepts it.
+ *
+ * Throws IndxStateError when a failure state is reported or the timeout expires;
+ * errors from GetStatus itself propagate unchanged.
+ */
+export async function waitForState(
+  client: IndxClient,
+  dataSetName: string,
+  target: string,
+  until: (status: SystemStatus) => boolean,
+  options: WaitOptions = {}
+): Promise<WaitResult> {
+  const maxIntervalMs = options.maxIntervalMs ?? DEFAULT_MAX_INTERVAL_MS;
+  const backoffFactor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const failureStates = (options.failureStates ?? DEFAULT_FAILURE_STATES).map(s => s.toLowerCase());
+  const route = `${client.route}/GetStatus/${dataSetName}`;
+
+  const startTime = Date.now();
+  let interval = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  let polls = 0;
+
+  for (;;) {
+    const status = await client.getStatus(dataSetName);
+    const elapsedMs = Date.now() - startTime;
+    const state = stateName(status.systemState);
+    polls++;
+    options.onPoll?.(status, elapsedMs);
+
+    // Checked first: a predicate such as "no longer Loading" also holds for a failure state
+    if (failureStates.includes(state.toLowerCase())) {
+      throw new IndxStateError(
+        `Dataset "${dataSetName}" entered failure state ${state} while waiting for ${target} ` +
+        `(after ${(elapsedMs / 1000).toFixed(1)}s, ${polls} polls)`,
+        route, 'failed', state, elapsedMs, status
+      );
+    }
+
+    if (until(status)) {
+      return { status, elapsedMs, polls };
+    }
+
+    if (timeoutMs > 0 && elapsedMs + interval > timeoutMs) {
+      throw new IndxStateError(
+        `Timed out after ${(elapsedMs / 1000).toFixed(1)}s waiting for dataset "${dataSetName}" to become ${target}; ` +
+        `it is stuck in state ${state} (${polls} polls)`,
+        route, 'timeout', state, elapsedMs, status
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, interval));
+    interval = Math.min(interval * backoffFactor, maxIntervalMs);
+  }
+}
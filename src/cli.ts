@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+/**
+ * IndxNodeLoader - Command line entry point
+ * Converts C# Program.cs to TypeScript
+ */
+import { Command, CommanderError } from 'commander';
+import { ConsoleHelper } from './utils/console-helper.js';
+import { ConfigValidationError, DEFAULT_CONFIG_DIR } from './config/dataset-config.js';
+import { IndxAuthError, IndxError } from './api/errors.js';
+import { profileForEnv } from './config/profiles.js';
+import { stateDirFor, setStateDir } from './utils/paths.js';
+import { EXIT_CODES, enableCiMode, isCiMode, recordCiMessage, stageExitCode, writeCiReport } from './utils/ci.js';
+import { globalOptions, reportConfigError } from './commands/shared.js';
+import { registerLoadCommand } from './commands/load.js';
+import { registerInitCommand } from './commands/init.js';
+import { registerStatusCommand } from './commands/status.js';
+import { registerListCommand } from './commands/list.js';
+import { registerFieldsCommand } from './commands/fields.js';
+import { registerSearchCommand } from './commands/search.js';
+import { registerGetCommand } from './commands/get.js';
+import { registerDeleteCommand } from './commands/delete.js';
+import { registerReplCommand } from './commands/repl.js';
+import { registerPlanCommand } from './commands/plan.js';
+import { registerApplyCommand } from './commands/apply.js';
+import { registerValidateCommand } from './commands/validate.js';
+import { registerRelevanceCommand } from './commands/relevance.js';
+import { registerBenchCommand } from './commands/bench.js';
+import { registerRollbackCommand } from './commands/rollback.js';
+import { registerExportCommand } from './commands/export.js';
+import { registerRestoreCommand } from './commands/restore.js';
+import { registerCopyCommand } from './commands/copy.js';
+import { registerProfilesCommand } from './commands/profiles.js';
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  // Checked before parsing, so usage errors are reported in the CI format too
+  if (process.argv.includes('--ci')) {
+    enableCiMode();
+  }
+
+  // Create root command
+  const program = new Command();
+  let commandName = '';
+
+  program
+    .name('indx-node-loader')
+    .description('IndxNodeLoader - Load and configure datasets for IndxCloudApi')
+    .version('1.0.0')
+    .option('--config-dir <dir>', 'Directory containing dataset config files', DEFAULT_CONFIG_DIR)
+    .option('--retries <n>', 'Retries for transient HTTP failures on idempotent calls (0 = no retries)', '3')
+    .option('--env <profile>', 'Server profile to use (default: INDX_ENV, the default profile or .env.local)')
+    .option('--ca <file>', 'PEM bundle of additional CAs to trust for the server certificate')
+    .option('--cert <file>', 'PEM client certificate for servers that require one (with --key)')
+    .option('--key <file>', 'PEM private key of the client certificate')
+    .option('--insecure', 'Do not verify the server certificate (prints a warning; prefer --ca)')
+    .option('--ci', 'Never prompt, print a JSON report on stdout and exit with a code per failed stage');
+  if (isCiMode()) {
+    // Usage errors are thrown instead of exiting, so they still end with a report, and help and
+    // version text go to stderr, so stdout stays a single JSON document
+    program.exitOverride();
+    program.configureOutput({ writeOut: text => process.stderr.write(text) });
+  }
+
+  // Commands work against the server of the active profile and keep that server's state apart;
+  // profiles itself has to work even when the active profile is broken
+  program.hook('preAction', (_program, actionCommand) => {
+    commandName = actionCommand.parent === program ? actionCommand.name() : `${actionCommand.parent?.name()} ${actionCommand.name()}`;
+    if (actionCommand.parent?.name() === 'profiles') {
+      return;
+    }
+    const active = profileForEnv(globalOptions(actionCommand).env);
+    ConsoleHelper.setProfile(active?.name);
+    setStateDir(stateDirFor(active?.name));
+  });
+
+  registerLoadCommand(program);
+  registerInitCommand(program);
+  registerValidateCommand(program);
+  registerListCommand(program);
+  registerStatusCommand(program);
+  registerFieldsCommand(program);
+  registerSearchCommand(program);
+  registerGetCommand(program);
+  registerDeleteCommand(program);
+  registerReplCommand(program);
+  registerPlanCommand(program);
+  registerApplyCommand(program);
+  registerRelevanceCommand(program);
+  registerBenchCommand(program);
+  registerRollbackCommand(program);
+  registerExportCommand(program);
+  registerRestoreCommand(program);
+  registerCopyCommand(program);
+  registerProfilesCommand(program);
+
+  let exitCode: number | undefined;
+  try {
+    await program.parseAsync(process.argv);
+  } catch (error: any) {
+    exitCode = reportFatalError(error);
+  }
+
+  if (isCiMode()) {
+    writeCiReport(commandName, exitCode ?? Number(process.exitCode ?? 0));
+  }
+  if (exitCode !== undefined) {
+    process.exit(exitCode);
+  }
+}
+
+/**
+ * Print an error that ended the command and return the exit code for it
+ */
+function reportFatalError(error: any): number {
+  if (error instanceof CommanderError) {
+    // Commander has printed the problem (or the help) already
+    if (isCiMode() && error.exitCode !== EXIT_CODES.success) {
+      recordCiMessage('error', error.message);
+    }
+    return error.exitCode;
+  }
+  if (error instanceof ConfigValidationError) {
+    reportConfigError(error, false);
+    return stageExitCode('config', -1);
+  }
+  if (error instanceof IndxAuthError) {
+    ConsoleHelper.writeError(`Authentication failed: ${error.message}`);
+    return stageExitCode('auth', -1);
+  }
+  if (error instanceof IndxError) {
+    ConsoleHelper.writeError(error.message);
+    return isCiMode() ? EXIT_CODES.failure : -1;
+  }
+  ConsoleHelper.writeError(`Fatal error: ${error.message}`);
+  if (error.cause) {
+    ConsoleHelper.writeError(`  Inner exception: ${error.cause}`);
+  }
+  return isCiMode() ? EXIT_CODES.failure : -1;
+}
+
+// Run main function
+main().catch((error) => {
+  ConsoleHelper.writeError(`Unhandled error: ${error.message}`);
+  process.exit(-1);
+});
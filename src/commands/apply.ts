@@ -0,0 +1,93 @@
+/**
+ * apply command
+ * Pushes only the field configuration differences found by plan
+ */
+import { Command } from 'commander';
+import { SystemState } from '@indxsearch/indx-types';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { applyFieldPlan, describeFieldPlan, planFields } from '../api/field-plan.js';
+import { waitForState } from '../api/wait-for-state.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { isCiMode, stageExitCode } from '../utils/ci.js';
+import { selectConfig } from './load.js';
+import { writeFieldPlan } from './plan.js';
+import { confirmAction, connectFromCommand, globalOptions, parseIntOption } from './shared.js';
+
+interface ApplyOptions {
+  config?: string;
+  yes?: boolean;
+  reindex?: boolean;
+  timeout: string;
+}
+
+async function runApply(datasetArg: string | undefined, options: ApplyOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const config = await selectConfig(configDir, datasetArg, options.config);
+  if (config === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const { client } = await connectFromCommand(command);
+  // Blue/green datasets are changed in their current version
+  const target = { ...config, name: resolveDatasetName(config.name) };
+  const plan = await planFields(client, target);
+
+  ConsoleHelper.writeHeader(`Apply Field Configuration: ${config.name}`);
+  if (!writeFieldPlan(plan)) {
+    return;
+  }
+
+  // In CI the server is expected to match the config already; drift means someone changed it by hand
+  if (isCiMode()) {
+    ConsoleHelper.writeError('Field configuration drift detected; not applying in CI mode');
+    process.exitCode = stageExitCode('configure');
+    return;
+  }
+
+  const removals = plan.categories.some(c => c.removed.length > 0);
+  if (removals && !await confirmAction(`Clear field settings on ${config.name}?`, options.yes)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = await applyFieldPlan(client, target, plan);
+  if (result.cleared.length > 0) {
+    ConsoleHelper.writeInfo(`Cleared: ${result.cleared.join(', ')}`);
+  }
+  if (result.updated.length > 0) {
+    ConsoleHelper.writeInfo(`Updated: ${result.updated.join(', ')}`);
+  }
+
+  if (result.remaining.hasChanges) {
+    ConsoleHelper.writeError('The server still differs from the config after applying:');
+    describeFieldPlan(result.remaining).forEach(line => ConsoleHelper.writeInfo(`  ${line}`));
+    process.exitCode = 1;
+    return;
+  }
+  ConsoleHelper.writeSuccess('Field configuration applied');
+
+  if (!options.reindex) {
+    ConsoleHelper.writeInfo('Changes take effect after the dataset is re-indexed (pass --reindex).');
+    return;
+  }
+
+  ConsoleHelper.writeInfo('Re-indexing...');
+  await client.indexDataSet(target.name);
+  const { elapsedMs } = await waitForState(client, target.name, 'Ready', status => status.systemState === SystemState.Ready, {
+    timeoutMs: parseIntOption(options.timeout, '--timeout') * 1000
+  });
+  ConsoleHelper.writeSuccess(`Indexing complete in ${(elapsedMs / 1000).toFixed(1)}s`);
+}
+
+export function registerApplyCommand(program: Command): void {
+  program
+    .command('apply')
+    .description('Push field configuration differences from the dataset config to the server (with --ci, drift fails instead)')
+    .argument('[dataset]', 'Dataset to update. If not provided, interactive mode will prompt for selection.')
+    .option('-c, --config <file>', 'Apply the dataset defined in this JSON/YAML config file')
+    .option('-y, --yes', 'Clear field settings without asking')
+    .option('--reindex', 'Re-index the dataset after applying')
+    .option('--timeout <seconds>', 'Give up waiting for re-indexing after this long (0 = never)', '1800')
+    .action(runApply);
+}
@@ -0,0 +1,217 @@
+/**
+ * bench command
+ * Measures search throughput and latency on a loaded dataset
+ */
+import * as fs from 'fs';
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { connect } from '../api/connection.js';
+import {
+  BENCH_MODES,
+  BenchMode,
+  BenchResult,
+  LatencyStats,
+  compareBenchResults,
+  generateQueries,
+  readBenchResult,
+  readQueryFile,
+  runBenchmark,
+  writeBenchResult
+} from '../api/bench.js';
+import { configuredFields } from '../config/dataset-config.js';
+import { profileForEnv } from '../config/profiles.js';
+import { resolveDatasetName, versionOf } from '../data/releases.js';
+import { createRecordTransform, readDatasetRecords } from '../data/transforms.js';
+import { selectConfig } from './load.js';
+import { commandConnectionSettings, globalOptions, parseIntOption } from './shared.js';
+
+interface BenchCommandOptions {
+  queries?: string;
+  generate: string;
+  config?: string;
+  concurrency: string;
+  duration: string;
+  max: string;
+  modes: string;
+  save?: string;
+  compare?: string;
+  threshold: string;
+}
+
+/**
+ * Queries from --queries, or generated from the searchable fields of the dataset's data file
+ */
+async function benchQueries(dataset: string, options: BenchCommandOptions, command: Command): Promise<{ queries: string[]; source: string } | null> {
+  if (options.queries) {
+    return { queries: readQueryFile(options.queries), source: options.queries };
+  }
+
+  const { configDir, env } = globalOptions(command);
+  const config = await selectConfig(configDir, dataset, options.config, profileForEnv(env)?.profile.datasets);
+  if (config === null) {
+    return null;
+  }
+  if (!fs.existsSync(config.filePath)) {
+    ConsoleHelper.writeError(`Data file not found: ${config.filePath} (pass --queries to use a query file instead)`);
+    return null;
+  }
+
+  const transform = config.transforms ? await createRecordTransform(config.transforms) : undefined;
+  const queries = await generateQueries(
+    readDatasetRecords(config, transform),
+    configuredFields(config, 'searchable'),
+    parseIntOption(options.generate, '--generate')
+  );
+  if (queries.length === 0) {
+    ConsoleHelper.writeError(`No text values in the searchable fields of ${config.filePath} to generate queries from`);
+    return null;
+  }
+  return { queries, source: config.filePath };
+}
+
+function parseModes(value: string): BenchMode[] {
+  const modes = value.split(',').map(m => m.trim()).filter(m => m !== '');
+  const unknown = modes.filter(m => !BENCH_MODES.includes(m as BenchMode));
+  if (unknown.length > 0 || modes.length === 0) {
+    throw new Error(`--modes must list ${BENCH_MODES.join(', ')}; got "${value}"`);
+  }
+  return modes as BenchMode[];
+}
+
+function statsRow(scope: string, stats: LatencyStats): string {
+  const ms = (value: number) => `${value.toFixed(1)}ms`.padStart(9);
+  return [
+    scope.padEnd(14),
+    String(stats.requests).padStart(8),
+    String(stats.errors).padStart(7),
+    stats.throughput.toFixed(1).padStart(8),
+    ms(stats.p50),
+    ms(stats.p95),
+    ms(stats.p99),
+    ms(stats.max)
+  ].join('  ');
+}
+
+function writeResult(result: BenchResult): void {
+  ConsoleHelper.writeHeader('Results');
+  ConsoleHelper.writeInfo(
+    `${'Mode'.padEnd(14)}  ${'Requests'.padStart(8)}  ${'Errors'.padStart(7)}  ${'req/s'.padStart(8)}  ` +
+    `${'p50'.padStart(9)}  ${'p95'.padStart(9)}  ${'p99'.padStart(9)}  ${'max'.padStart(9)}`
+  );
+  for (const [mode, stats] of Object.entries(result.modes)) {
+    ConsoleHelper.writeInfo(statsRow(mode, stats));
+  }
+  ConsoleHelper.writeInfo(statsRow('overall', result.overall));
+
+  if (result.firstError !== undefined) {
+    console.log();
+    ConsoleHelper.writeWarning(`${result.overall.errors} requests failed; first error: ${result.firstError}`);
+  }
+}
+
+/**
+ * Print how the run compares to a saved one; returns the number of metrics beyond the threshold
+ */
+function writeComparison(baselineFile: string, baseline: BenchResult, result: BenchResult, threshold: number): number {
+  ConsoleHelper.writeHeader(`Compared to ${baselineFile} (${baseline.startedAt})`);
+  // Versions of a blue/green dataset count as the same dataset
+  const setup = (r: BenchResult) => `${versionOf(r.dataset) ?? r.dataset}, concurrency ${r.concurrency}, --max ${r.maxResults}, modes ${Object.keys(r.modes).join(',')}`;
+  if (setup(baseline) !== setup(result)) {
+    // Requests are split between the modes, so even per-mode throughput changes with the mode list
+    ConsoleHelper.writeWarning(`Baseline ran with ${setup(baseline)}; the numbers may not be comparable`);
+  }
+
+  let regressions = 0;
+  for (const delta of compareBenchResults(baseline, result)) {
+    const format = (value: number) => (delta.metric === 'throughput' ? value.toFixed(1) : `${value.toFixed(1)}ms`).padStart(10);
+    const sign = delta.changePercent > 0 ? '+' : '';
+    const line = `${delta.scope.padEnd(14)}  ${(delta.metric === 'throughput' ? 'req/s' : delta.metric).padEnd(6)}` +
+      `${format(delta.baseline)} → ${format(delta.current)}  ${`${sign}${delta.changePercent.toFixed(1)}%`.padStart(8)}`;
+    if (delta.worse && Math.abs(delta.changePercent) > threshold) {
+      regressions++;
+      ConsoleHelper.writeWarning(line);
+    } else {
+      ConsoleHelper.writeInfo(line);
+    }
+  }
+  return regressions;
+}
+
+async function runBench(dataset: string, options: BenchCommandOptions, command: Command): Promise<void> {
+  const concurrency = parseIntOption(options.concurrency, '--concurrency');
+  const durationSeconds = parseIntOption(options.duration, '--duration');
+  const maxResults = parseIntOption(options.max, '--max');
+  const modes = parseModes(options.modes);
+  const threshold = parseIntOption(options.threshold, '--threshold');
+  // Read the baseline first, so a bad file fails before the run instead of after it
+  const baseline = options.compare ? readBenchResult(options.compare) : undefined;
+
+  const source = await benchQueries(dataset, options, command);
+  if (source === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  // A retried request would count its retries as latency, so failures are counted instead
+  const { client } = await connect({ retry: false }, commandConnectionSettings(command));
+
+  ConsoleHelper.writeHeader(`Benchmark: ${dataset}`);
+  ConsoleHelper.writeInfo(`${source.queries.length} queries from ${source.source}`);
+  ConsoleHelper.writeInfo(`${concurrency} concurrent requests for ${durationSeconds}s, modes: ${modes.join(', ')}`);
+
+  let progressShown = false;
+  const result = await runBenchmark(client, resolveDatasetName(dataset), source.queries, source.source, {
+    concurrency,
+    durationSeconds,
+    maxResults,
+    modes,
+    onProgress: p => {
+      progressShown = true;
+      ConsoleHelper.writeProgress(`  ${p.elapsedSeconds.toFixed(0)}s: ${p.requests.toLocaleString()} requests, ${p.errors} errors   `);
+    }
+  });
+  if (progressShown) {
+    console.log(); // New line after progress
+  }
+
+  writeResult(result);
+
+  if (options.save) {
+    writeBenchResult(options.save, result);
+    console.log();
+    ConsoleHelper.writeSuccess(`Saved results to ${options.save}`);
+  }
+
+  if (baseline) {
+    const regressions = writeComparison(options.compare!, baseline, result, threshold);
+    console.log();
+    if (regressions > 0) {
+      ConsoleHelper.writeError(`${regressions} metrics are more than ${threshold}% worse than the baseline`);
+      process.exitCode = 1;
+    } else {
+      ConsoleHelper.writeSuccess(`No metric is more than ${threshold}% worse than the baseline`);
+    }
+  }
+
+  if (result.overall.requests > 0 && result.overall.errors === result.overall.requests) {
+    process.exitCode = 1;
+  }
+}
+
+export function registerBenchCommand(program: Command): void {
+  program
+    .command('bench')
+    .description('Measure search throughput and latency on a loaded dataset')
+    .argument('<dataset>', 'Dataset name')
+    .option('-q, --queries <file>', 'Replay the queries in this file (one per line, or a JSON array of strings)')
+    .option('-g, --generate <n>', 'Without --queries: generate up to n queries from the searchable fields of the data file', '100')
+    .option('-c, --config <file>', 'Config file to find the data file in when generating queries')
+    .option('--concurrency <n>', 'Requests in flight at a time', '4')
+    .option('--duration <seconds>', 'How long to run', '10')
+    .option('-n, --max <n>', 'Maximum number of results per query', '10')
+    .option('--modes <list>', `Comma-separated query modes to measure (${BENCH_MODES.join(', ')})`, BENCH_MODES.join(','))
+    .option('--save <file>', 'Save the results as JSON')
+    .option('--compare <file>', 'Compare with results saved by an earlier run')
+    .option('--threshold <percent>', 'With --compare: fail when a metric is this much worse than the baseline', '10')
+    .action(runBench);
+}
@@ -0,0 +1,161 @@
+/**
+ * copy command
+ * Copies a dataset with its field configuration from one server to another
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { DEFAULT_EXPORT_BATCH_SIZE, DEFAULT_MAX_KEY_GAP, exportDataset, readArchive } from '../api/archive.js';
+import { getConfig } from '../config/dataset-config.js';
+import { deleteManifest } from '../data/manifest.js';
+import { readReleases, resolveDatasetName } from '../data/releases.js';
+import { ConnectionSettings } from '../api/connection.js';
+import { STATE_DIR, stateDirFor } from '../utils/paths.js';
+import { loadArchive } from './restore.js';
+import { commandConnectionSettings, connectFromCommand, globalOptions, parseIntOption } from './shared.js';
+
+interface CopyOptions {
+  sourceEnv?: string;
+  targetEnv?: string;
+  as?: string;
+  batchSize: string;
+  maxGap: string;
+  keepArchive?: string;
+  pollInterval: string;
+  timeout: string;
+  skipValidation?: boolean;
+  yes?: boolean;
+}
+
+/**
+ * Loader state kept for a server: that of its profile, or STATE_DIR for .env.local
+ * Servers from other dotenv files have none, so blue/green pointers are not known for them.
+ */
+function serverStateDir(settings: ConnectionSettings, envFile: string | undefined): string | null {
+  if (settings.profile) {
+    return stateDirFor(settings.profile);
+  }
+  return envFile ? null : STATE_DIR;
+}
+
+function describeServer(settings: ConnectionSettings): string {
+  return settings.profile ? `${settings.uri} [${settings.profile}]` : settings.uri;
+}
+
+async function runCopy(dataset: string, options: CopyOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const sourceSettings = commandConnectionSettings(command, options.sourceEnv);
+  const targetSettings = commandConnectionSettings(command, options.targetEnv);
+  const sourceState = serverStateDir(sourceSettings, options.sourceEnv);
+  const targetState = serverStateDir(targetSettings, options.targetEnv);
+
+  const sourceName = sourceState ? resolveDatasetName(dataset, sourceState) : dataset;
+  const targetName = options.as ?? dataset;
+  if (sourceSettings.uri === targetSettings.uri && sourceName === targetName) {
+    ConsoleHelper.writeError('Source and target are the same dataset; pass --source-env, --target-env or --as');
+    process.exitCode = 1;
+    return;
+  }
+  const blueGreen = targetState !== null && readReleases(targetName, targetState) !== null;
+
+  const source = await connectFromCommand(command, sourceSettings);
+  const target = await connectFromCommand(command, targetSettings);
+
+  ConsoleHelper.writeHeader(`Copying Dataset: ${dataset}`);
+  ConsoleHelper.writeInfo(`From: ${describeServer(sourceSettings)} (${sourceName})`);
+  ConsoleHelper.writeInfo(`To:   ${describeServer(targetSettings)} (${targetName}${blueGreen ? ', new blue/green version' : ''})`);
+
+  const archiveDir = options.keepArchive ?? fs.mkdtempSync(path.join(os.tmpdir(), 'indx-copy-'));
+  try {
+    // Headers name the server each phase works on
+    ConsoleHelper.setProfile(sourceSettings.profile);
+    ConsoleHelper.writeHeader('Reading Source');
+    const config = getConfig(dataset, configDir);
+    let progressShown = false;
+    const { manifest, scannedKeys } = await exportDataset(source.client, sourceName, archiveDir, {
+      name: targetName,
+      batchSize: parseIntOption(options.batchSize, '--batch-size'),
+      maxKeyGap: parseIntOption(options.maxGap, '--max-gap'),
+      weights: config?.searchableFields,
+      testQuery: config?.testQuery,
+      source: source.uri,
+      onProgress: (found, expected, scanned) => {
+        progressShown = true;
+        ConsoleHelper.writeProgress(`  ${found.toLocaleString()} of ${expected.toLocaleString()} records (${scanned.toLocaleString()} keys scanned)   `);
+      }
+    });
+    if (progressShown) {
+      console.log(); // New line after progress
+    }
+
+    if (manifest.recordCount < manifest.expectedRecords) {
+      ConsoleHelper.writeError(
+        `Only found ${manifest.recordCount.toLocaleString()} of ${manifest.expectedRecords.toLocaleString()} source records in document keys ` +
+        `0-${(scannedKeys - 1).toLocaleString()}; raise --max-gap if the keys have larger gaps. Nothing was copied.`
+      );
+      process.exitCode = 1;
+      return;
+    }
+    ConsoleHelper.writeSuccess(`Read ${manifest.recordCount.toLocaleString()} records and the field configuration`);
+    if (!manifest.weightsKnown) {
+      ConsoleHelper.writeWarning(
+        `The source does not report searchable weights; ${config ? `took them from ${config.name}'s config` : 'all searchable fields are copied as Med'}`
+      );
+    }
+
+    ConsoleHelper.setProfile(targetSettings.profile);
+    const result = await loadArchive(target, readArchive(archiveDir), {
+      blueGreen,
+      wait: {
+        intervalMs: parseIntOption(options.pollInterval, '--poll-interval'),
+        timeoutMs: parseIntOption(options.timeout, '--timeout') * 1000
+      },
+      skipValidation: options.skipValidation,
+      yes: options.yes,
+      stateDir: targetState
+    });
+    if (!result?.success) {
+      process.exitCode ||= 1;
+      return;
+    }
+    if (targetState) {
+      deleteManifest(targetName, targetState);
+    }
+
+    ConsoleHelper.writeSummary('Record Counts', {
+      [`Source (${source.uri})`]: manifest.expectedRecords.toLocaleString(),
+      [`Target (${target.uri})`]: result.recordCount.toLocaleString()
+    });
+    console.log();
+    if (result.recordCount === manifest.expectedRecords) {
+      ConsoleHelper.writeSuccess(`Copied ${dataset} to ${target.uri}`);
+    } else {
+      ConsoleHelper.writeError('Record counts differ between source and target');
+      process.exitCode = 1;
+    }
+  } finally {
+    if (!options.keepArchive) {
+      fs.rmSync(archiveDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export function registerCopyCommand(program: Command): void {
+  program
+    .command('copy')
+    .description('Copy a dataset with its field configuration from one server to another')
+    .argument('<dataset>', 'Dataset name on the source server')
+    .option('--source-env <profile|file>', 'Profile or dotenv file of the source server (default: the one of --env)')
+    .option('--target-env <profile|file>', 'Profile or dotenv file of the target server (default: the one of --env)')
+    .option('--as <name>', 'Dataset name on the target server')
+    .option('--batch-size <keys>', 'Document keys requested per GetJson call', String(DEFAULT_EXPORT_BATCH_SIZE))
+    .option('--max-gap <keys>', 'Stop reading after this many unused document keys in a row', String(DEFAULT_MAX_KEY_GAP))
+    .option('--keep-archive <dir>', 'Keep the intermediate archive in this directory (usable with restore)')
+    .option('--poll-interval <ms>', 'Initial delay between status polls (backs off up to 5s)', '100')
+    .option('--timeout <seconds>', 'Give up waiting for loading or indexing after this long (0 = never)', '1800')
+    .option('--skip-validation', 'Do not check the records against the field configuration before loading')
+    .option('-y, --yes', 'Replace the dataset on the target without asking')
+    .action(runCopy);
+}
@@ -0,0 +1,97 @@
+/**
+ * delete command
+ * Deletes a dataset, or single documents from it, after confirmation
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { IndxClient } from '../api/indx-client.js';
+import { IndxNotFoundError } from '../api/errors.js';
+import { deleteManifest } from '../data/manifest.js';
+import { deleteReleases, readReleases, resolveDatasetName, versionOf, writeReleases } from '../data/releases.js';
+import { confirmAction, connectFromCommand, parseIntOption } from './shared.js';
+
+interface DeleteOptions {
+  document?: string[];
+  yes?: boolean;
+}
+
+/**
+ * Delete a dataset that may already be gone
+ */
+async function deleteIfExists(client: IndxClient, name: string): Promise<void> {
+  try {
+    await client.deleteDataSet(name);
+  } catch (error) {
+    if (!(error instanceof IndxNotFoundError)) throw error;
+  }
+}
+
+async function runDelete(dataset: string, options: DeleteOptions, command: Command): Promise<void> {
+  const documentKeys = (options.document ?? []).map(k => parseIntOption(k, '--document'));
+  const releases = readReleases(dataset);
+
+  // A version that is still current would leave its dataset pointing at nothing
+  const owner = versionOf(dataset);
+  const ownerReleases = owner ? readReleases(owner) : null;
+  if (documentKeys.length === 0 && ownerReleases?.current === dataset) {
+    ConsoleHelper.writeError(`${dataset} is the current version of ${owner}; roll back first, or delete ${owner} with all its versions`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let what: string;
+  if (documentKeys.length > 0) {
+    what = `${documentKeys.length} document(s) from dataset "${dataset}"`;
+  } else if (releases) {
+    what = `dataset "${dataset}" and all ${releases.versions.length} of its versions (${releases.versions.map(v => v.name).join(', ')})`;
+  } else {
+    what = `dataset "${dataset}" and all its records`;
+  }
+
+  if (!await confirmAction(`Delete ${what}?`, options.yes)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const { client } = await connectFromCommand(command);
+
+  if (documentKeys.length === 0 && releases) {
+    for (const version of releases.versions) {
+      await deleteIfExists(client, version.name);
+      ConsoleHelper.writeSuccess(`Deleted version ${version.name}`);
+    }
+    // Loads before the switch to blue/green may have left the dataset itself behind
+    await deleteIfExists(client, dataset);
+    deleteReleases(dataset);
+    deleteManifest(dataset);
+    ConsoleHelper.writeSuccess(`Deleted dataset ${dataset}`);
+    return;
+  }
+
+  if (documentKeys.length === 0) {
+    await client.deleteDataSet(dataset);
+    deleteManifest(dataset);
+    if (owner && ownerReleases) {
+      ownerReleases.versions = ownerReleases.versions.filter(v => v.name !== dataset);
+      writeReleases(ownerReleases);
+    }
+    ConsoleHelper.writeSuccess(`Deleted dataset ${dataset}`);
+    return;
+  }
+
+  const name = resolveDatasetName(dataset);
+  for (const key of documentKeys) {
+    await client.deleteDocument(name, key);
+    ConsoleHelper.writeSuccess(`Deleted document ${key}`);
+  }
+}
+
+export function registerDeleteCommand(program: Command): void {
+  program
+    .command('delete')
+    .description('Delete a dataset (or documents with --document)')
+    .argument('<dataset>', 'Dataset name; deleting a blue/green dataset deletes all its versions')
+    .option('--document <key...>', 'Only delete the documents with these keys')
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .action(runDelete);
+}
@@ -0,0 +1,94 @@
+/**
+ * export command
+ * Writes the records and live field configuration of a dataset to an archive directory
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { ARCHIVE_FILE, DEFAULT_EXPORT_BATCH_SIZE, DEFAULT_MAX_KEY_GAP, exportDataset } from '../api/archive.js';
+import { getConfig } from '../config/dataset-config.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { confirmAction, connectFromCommand, globalOptions, parseIntOption } from './shared.js';
+
+interface ExportOptions {
+  output?: string;
+  batchSize: string;
+  maxGap: string;
+  yes?: boolean;
+}
+
+async function runExport(dataset: string, options: ExportOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const archiveDir = options.output ?? `${dataset}-export`;
+  const batchSize = parseIntOption(options.batchSize, '--batch-size');
+  const maxKeyGap = parseIntOption(options.maxGap, '--max-gap');
+
+  if (fs.existsSync(path.join(archiveDir, ARCHIVE_FILE)) &&
+    !await confirmAction(`Overwrite the archive in ${archiveDir}?`, options.yes)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const { client, uri } = await connectFromCommand(command);
+  const name = resolveDatasetName(dataset);
+  // The local config fills in what the server does not report
+  const config = getConfig(dataset, configDir);
+
+  ConsoleHelper.writeHeader(`Exporting Dataset: ${dataset}`);
+  if (name !== dataset) {
+    ConsoleHelper.writeInfo(`Current version: ${name}`);
+  }
+
+  let progressShown = false;
+  const result = await exportDataset(client, name, archiveDir, {
+    name: dataset,
+    batchSize,
+    maxKeyGap,
+    weights: config?.searchableFields,
+    testQuery: config?.testQuery,
+    source: uri,
+    onProgress: (found, expected, scanned) => {
+      progressShown = true;
+      ConsoleHelper.writeProgress(`  ${found.toLocaleString()} of ${expected.toLocaleString()} records (${scanned.toLocaleString()} keys scanned)   `);
+    }
+  });
+  if (progressShown) {
+    console.log(); // New line after progress
+  }
+
+  const { manifest } = result;
+  if (!manifest.weightsKnown) {
+    ConsoleHelper.writeWarning(
+      `The server does not report searchable weights; ${config ? `took them from ${config.name}'s config` : 'all searchable fields were archived as Med'}`
+    );
+  }
+  if (manifest.recordCount < manifest.expectedRecords) {
+    ConsoleHelper.writeError(
+      `Only found ${manifest.recordCount.toLocaleString()} of ${manifest.expectedRecords.toLocaleString()} records in document keys ` +
+      `0-${(result.scannedKeys - 1).toLocaleString()}; raise --max-gap if the keys have larger gaps`
+    );
+    process.exitCode = 1;
+  }
+
+  ConsoleHelper.writeSummary('Export Complete', {
+    'Archive': archiveDir,
+    'Records': manifest.recordCount.toLocaleString(),
+    'Searchable Fields': (manifest.config.searchableFields as unknown[]).length,
+    'Test Query': manifest.config.testQuery
+  });
+  console.log();
+  ConsoleHelper.writeInfo(`Restore with: restore ${archiveDir}`);
+}
+
+export function registerExportCommand(program: Command): void {
+  program
+    .command('export')
+    .description('Export the records and field configuration of a dataset to an archive directory')
+    .argument('<dataset>', 'Dataset name')
+    .option('-o, --output <dir>', 'Archive directory (default: <dataset>-export)')
+    .option('--batch-size <keys>', 'Document keys requested per GetJson call', String(DEFAULT_EXPORT_BATCH_SIZE))
+    .option('--max-gap <keys>', 'Stop after this many unused document keys in a row', String(DEFAULT_MAX_KEY_GAP))
+    .option('-y, --yes', 'Overwrite an existing archive without asking')
+    .action(runExport);
+}
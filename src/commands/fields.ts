@@ -0,0 +1,43 @@
+/**
+ * fields command
+ * Shows all fields of a dataset and how each one is configured on the server
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { connectFromCommand } from './shared.js';
+
+async function runFields(dataset: string, _options: unknown, command: Command): Promise<void> {
+  const { client } = await connectFromCommand(command);
+  const name = resolveDatasetName(dataset);
+
+  const [all, searchable, wordIndexing, filterable, facetable, sortable] = await Promise.all([
+    client.getAllFields(name),
+    client.getSearchableFields(name),
+    client.getWordIndexingFields(name),
+    client.getFilterableFields(name),
+    client.getFacetableFields(name),
+    client.getSortableFields(name)
+  ]);
+
+  ConsoleHelper.writeHeader(`Fields: ${dataset}`);
+  const width = Math.max(5, ...all.map(f => f.length));
+  ConsoleHelper.writeInfo(`${'Field'.padEnd(width)}  Search  Word  Filter  Facet  Sort`);
+  const mark = (list: string[], field: string, pad: number) => (list.includes(field) ? '✓' : '·').padEnd(pad);
+  for (const field of all) {
+    ConsoleHelper.writeInfo(
+      `${field.padEnd(width)}  ${mark(searchable, field, 8)}${mark(wordIndexing, field, 6)}` +
+      `${mark(filterable, field, 8)}${mark(facetable, field, 7)}${mark(sortable, field, 4)}`
+    );
+  }
+  console.log();
+  ConsoleHelper.writeInfo(`${all.length} fields`);
+}
+
+export function registerFieldsCommand(program: Command): void {
+  program
+    .command('fields')
+    .description('Show the fields of a dataset and their configuration')
+    .argument('<dataset>', 'Dataset name')
+    .action(runFields);
+}
@@ -0,0 +1,33 @@
+/**
+ * get command
+ * Prints records by document key
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { connectFromCommand, parseIntOption } from './shared.js';
+
+async function runGet(dataset: string, keys: string[], _options: unknown, command: Command): Promise<void> {
+  const documentKeys = keys.map(k => parseIntOption(k, 'key'));
+  const { client } = await connectFromCommand(command);
+
+  const records = await client.getJson(resolveDatasetName(dataset), documentKeys);
+  documentKeys.forEach((key, idx) => {
+    const json = records[idx];
+    if (!json) {
+      ConsoleHelper.writeWarning(`No record with key ${key}`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(JSON.stringify(JSON.parse(json), null, 2));
+  });
+}
+
+export function registerGetCommand(program: Command): void {
+  program
+    .command('get')
+    .description('Print records by document key')
+    .argument('<dataset>', 'Dataset name')
+    .argument('<key...>', 'Document keys')
+    .action(runGet);
+}
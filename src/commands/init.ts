@@ -0,0 +1,186 @@
+/**
+ * init command
+ * Profiles a data file and writes a proposed DatasetConfig for review
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { InputOptions, Weight } from '../config/dataset-config.js';
+import { generateConfig } from '../config/config-generator.js';
+import { FieldProfile, profileRecords } from '../data/field-profiler.js';
+import { isPlainJson, readRecords, resolveInput } from '../data/record-reader.js';
+import { inferColumnTypes } from '../data/values.js';
+import { jsonArrayStream } from '../data/transforms.js';
+import { connectFromCommand, globalOptions } from './shared.js';
+
+export interface InitOptions {
+  name?: string;
+  output?: string;
+  format?: 'json' | 'yaml';
+  force?: boolean;
+  analyze?: boolean;
+  maxFacetValues?: string;
+}
+
+/**
+ * Format a one-line summary of a field profile
+ */
+export function describeProfile(p: FieldProfile): string {
+  const present = p.totalRecords > 0 ? (p.presentCount / p.totalRecords) * 100 : 0;
+  const type = p.type === 'array' && p.elementType ? `${p.elementType}[]` : p.type;
+  const parts = [
+    type.padEnd(9),
+    `present ${present.toFixed(0).padStart(3)}%`,
+    `distinct ${p.distinctCapped ? `${p.distinctCount}+` : p.distinctCount}`
+  ];
+  if (p.min !== undefined && p.max !== undefined) {
+    parts.push(`range ${p.min}..${p.max}`);
+  }
+  if (p.avgLength !== undefined) {
+    parts.push(`length ${p.minLength}..${p.maxLength} (avg ${p.avgLength.toFixed(0)})`);
+  }
+  return parts.join('  ');
+}
+
+/**
+ * Run the init command
+ */
+export async function runInit(file: string, options: InitOptions, command: Command): Promise<boolean> {
+  if (!fs.existsSync(file)) {
+    ConsoleHelper.writeError(`Data file not found: ${file}`);
+    return false;
+  }
+
+  if (options.format && options.format !== 'json' && options.format !== 'yaml') {
+    ConsoleHelper.writeError(`Unknown format: ${options.format} (expected yaml or json)`);
+    return false;
+  }
+
+  const baseName = path.basename(file).replace(/\.gz$/i, '');
+  const name = options.name ?? path.basename(baseName, path.extname(baseName)).replace(/[^A-Za-z0-9_-]/g, '_');
+  const format = options.format ?? (options.output && path.extname(options.output) === '.json' ? 'json' : 'yaml');
+  const output = options.output ?? path.join(globalOptions(command).configDir, `${name}.${format === 'json' ? 'json' : 'yaml'}`);
+
+  if (fs.existsSync(output) && !options.force) {
+    ConsoleHelper.writeError(`Config file already exists: ${output}`);
+    ConsoleHelper.writeInfo('Use --force to overwrite it.');
+    return false;
+  }
+
+  ConsoleHelper.writeHeader(`Profiling ${file}`);
+
+  // CSV values are all text; detect column types first so numbers and booleans are profiled as such
+  let input: InputOptions | undefined;
+  if (resolveInput(file).format === 'csv') {
+    const columns = await inferColumnTypes(readRecords(file));
+    if (Object.keys(columns).length > 0) {
+      input = { columns };
+      ConsoleHelper.writeInfo(`Column types: ${Object.entries(columns).map(([c, t]) => `${c}: ${t}`).join(', ')}`);
+    }
+  }
+
+  let showedProgress = false;
+  const profiles = await profileRecords(readRecords(file, input), count => {
+    showedProgress = true;
+    ConsoleHelper.writeProgress(`Profiled ${count.toLocaleString()} records...`);
+  });
+  if (showedProgress) {
+    console.log(); // New line after progress
+  }
+  const recordCount = profiles[0]?.totalRecords ?? 0;
+  ConsoleHelper.writeSuccess(`Profiled ${recordCount.toLocaleString()} records, ${profiles.length} fields`);
+
+  for (const profile of profiles) {
+    ConsoleHelper.writeInfo(`${profile.name.padEnd(24)} ${describeProfile(profile)}`);
+  }
+
+  // Optionally let the server analyze the file so we only propose fields it knows about
+  let serverFields: string[] | undefined;
+  if (options.analyze) {
+    ConsoleHelper.writeHeader('Server Analysis');
+    const { client } = await connectFromCommand(command);
+    // A scratch dataset, so a live dataset with the same name is not opened and re-analyzed
+    const scratch = `${name}-analyze-${Date.now()}`;
+    try {
+      await client.createOrOpenDataSet(scratch);
+      if (isPlainJson(file)) {
+        await client.analyze(scratch, file);
+      } else {
+        await client.analyzeRecordStream(scratch, () => jsonArrayStream(readRecords(file, input)));
+      }
+      serverFields = await client.getAllFields(scratch);
+    } finally {
+      try {
+        await client.deleteDataSet(scratch);
+      } catch (error: any) {
+        ConsoleHelper.writeWarning(`Could not delete the scratch dataset ${scratch} (${error.message}); delete it with "delete ${scratch}"`);
+      }
+    }
+    ConsoleHelper.writeSuccess(`Server reported ${serverFields.length} fields`);
+  }
+
+  const maxFacetValues = options.maxFacetValues ? parseInt(options.maxFacetValues, 10) : undefined;
+  const { config, notes } = generateConfig(name, file, profiles, { maxFacetValues, serverFields });
+
+  ConsoleHelper.writeHeader('Proposed Configuration');
+  for (const note of notes) {
+    ConsoleHelper.writeInfo(note);
+  }
+
+  // Write weights by name so the file reads like a hand-written config
+  const { name: configName, filePath, ...fields } = config;
+  const fileConfig = {
+    name: configName,
+    filePath,
+    ...(input ? { input } : {}),
+    ...fields,
+    searchableFields: config.searchableFields.map(f => ({ name: f.name, weight: Weight[f.weight] }))
+  };
+
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(fileConfig, null, 2) + '\n';
+  } else {
+    const header = [
+      `# Generated by "indx-node-loader init" from ${file} (${recordCount} records)`,
+      '# Review before loading. Field profile:',
+      ...profiles.map(p => `#   ${p.name.padEnd(24)} ${describeProfile(p)}`),
+      ''
+    ].join('\n');
+    content = header + YAML.stringify(fileConfig);
+  }
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, content, 'utf-8');
+  console.log();
+  ConsoleHelper.writeSuccess(`Wrote ${output}`);
+
+  if (config.searchableFields.length === 0) {
+    ConsoleHelper.writeWarning('No searchable fields were detected - add at least one before loading.');
+  }
+  if (!config.testQuery) {
+    ConsoleHelper.writeWarning('Could not propose a testQuery - set one before loading.');
+  }
+
+  return true;
+}
+
+export function registerInitCommand(program: Command): void {
+  program
+    .command('init')
+    .description('Profile a data file and write a proposed dataset config for review')
+    .argument('<file>', 'Data file to profile (JSON, NDJSON or CSV, optionally .gz)')
+    .option('-n, --name <name>', 'Dataset name (defaults to the file name)')
+    .option('-o, --output <file>', 'Config file to write (defaults to <name>.yaml in the config directory, see --config-dir)')
+    .option('-f, --format <format>', 'Output format: yaml or json')
+    .option('--max-facet-values <n>', 'Max distinct values for a field to be proposed as facetable', '50')
+    .option('--analyze', 'Also let the server analyze the file in a scratch dataset and only propose fields it reports')
+    .option('--force', 'Overwrite an existing config file')
+    .action(async (file: string, options: InitOptions, command: Command) => {
+      if (!await runInit(file, options, command)) {
+        process.exitCode = 1;
+      }
+    });
+}
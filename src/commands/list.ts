@@ -0,0 +1,47 @@
+/**
+ * list command
+ * Lists the datasets on the server and the locally configured ones
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { discoverConfigs } from '../config/dataset-config.js';
+import { readReleases, versionOf } from '../data/releases.js';
+import { connectFromCommand, globalOptions } from './shared.js';
+
+async function runList(_options: unknown, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const { client } = await connectFromCommand(command);
+
+  const remote = await client.getUserDataSets();
+  const local = discoverConfigs(configDir).configs.map(c => c.name);
+
+  ConsoleHelper.writeHeader('Datasets on Server');
+  if (remote.length === 0) {
+    ConsoleHelper.writeInfo('(none)');
+  }
+  for (const name of remote) {
+    const owner = versionOf(name);
+    if (owner) {
+      const current = readReleases(owner)?.current === name;
+      ConsoleHelper.writeInfo(`${name}  [${current ? 'current' : 'old'} version of ${owner}]`);
+    } else {
+      ConsoleHelper.writeInfo(`${name}${local.includes(name) ? '  [configured]' : ''}`);
+    }
+  }
+
+  const loaded = new Set(remote.map(name => versionOf(name) ?? name));
+  const notLoaded = local.filter(name => !loaded.has(name));
+  if (notLoaded.length > 0) {
+    ConsoleHelper.writeHeader('Configured but not on Server');
+    for (const name of notLoaded) {
+      ConsoleHelper.writeInfo(name);
+    }
+  }
+}
+
+export function registerListCommand(program: Command): void {
+  program
+    .command('list')
+    .description('List datasets on the server')
+    .action(runList);
+}
@@ -0,0 +1,220 @@
+/**
+ * load command (default)
+ * Selects a dataset config and runs the load workflow with console output
+ */
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { attachConsoleReporter, writeLoadSummary, writeSyncSummary } from '../utils/console-reporter.js';
+import { DatasetConfig, discoverConfigs, loadConfigFile } from '../config/dataset-config.js';
+import { profileForEnv } from '../config/profiles.js';
+import { isCiMode, loadExitCode } from '../utils/ci.js';
+import { DatasetLoader } from '../api/load-api.js';
+import { IndxClient } from '../api/indx-client.js';
+import { createRecordTransform, readDatasetRecords } from '../data/transforms.js';
+import { DEFAULT_KEY_FIELD, Manifest, buildManifest, deleteManifest, readManifest, writeManifest } from '../data/manifest.js';
+import { readReleases } from '../data/releases.js';
+import { connectFromCommand, globalOptions, parseIntOption, reportConfigError } from './shared.js';
+
+interface LoadOptions {
+  dataset?: string;
+  config?: string;
+  pollInterval: string;
+  timeout: string;
+  incremental?: boolean;
+  batchSize?: string;
+  resume?: boolean;
+  skipValidation?: boolean;
+  blueGreen?: boolean;
+  retain?: string;
+}
+
+/**
+ * Show interactive dataset selection menu
+ */
+async function showInteractiveMenu(configs: DatasetConfig[]): Promise<DatasetConfig | null> {
+  ConsoleHelper.writeHeader('Dataset Selection');
+  console.log();
+
+  const answer = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'dataset',
+      message: 'Select dataset:',
+      choices: [
+        ...configs.map((cfg, idx) => ({ name: `${idx + 1}. ${cfg.name}`, value: cfg })),
+        { name: '0. Exit', value: null }
+      ]
+    }
+  ]);
+
+  return answer.dataset;
+}
+
+/**
+ * Resolve the config to load from --config, a dataset name or the interactive menu
+ * `offered` limits the menu to these datasets, e.g. the ones of the active profile.
+ * Returns null (after printing why) when nothing should be loaded
+ */
+export async function selectConfig(configDir: string, datasetName?: string, configFile?: string, offered?: string[]): Promise<DatasetConfig | null> {
+  if (configFile) {
+    return loadConfigFile(configFile);
+  }
+
+  const discovery = discoverConfigs(configDir);
+  discovery.errors.forEach(e => reportConfigError(e, true));
+
+  if (discovery.configs.length === 0) {
+    ConsoleHelper.writeError(`No dataset configurations found in ${configDir}`);
+    return null;
+  }
+
+  if (datasetName) {
+    const lowerName = datasetName.toLowerCase();
+    const config = discovery.configs.find(c => c.name.toLowerCase() === lowerName) ?? null;
+    if (config === null) {
+      ConsoleHelper.writeError(`Unknown dataset: ${datasetName}`);
+      ConsoleHelper.writeInfo(`Available datasets: ${discovery.configs.map(c => c.name).join(', ')}`);
+    }
+    return config;
+  }
+
+  // If no dataset provided, show interactive menu; without a terminal it would wait forever
+  if (isCiMode() || !process.stdin.isTTY) {
+    ConsoleHelper.writeError('No dataset given; pass its name or --config (the selection menu needs an interactive terminal)');
+    return null;
+  }
+  const lowerOffered = offered?.map(name => name.toLowerCase());
+  const choices = lowerOffered ? discovery.configs.filter(c => lowerOffered.includes(c.name.toLowerCase())) : discovery.configs;
+  if (choices.length === 0) {
+    ConsoleHelper.writeError(`None of the datasets of this profile (${offered!.join(', ')}) has a config in ${configDir}`);
+    return null;
+  }
+  const config = await showInteractiveMenu(choices);
+  if (config === null) {
+    ConsoleHelper.writeWarning('No dataset selected. Exiting.');
+  }
+  return config;
+}
+
+/**
+ * Load a dataset
+ */
+async function runLoad(datasetArg: string | undefined, options: LoadOptions, command: Command): Promise<void> {
+  const { configDir, env } = globalOptions(command);
+  const config = await selectConfig(configDir, datasetArg ?? options.dataset, options.config, profileForEnv(env)?.profile.datasets);
+  if (config === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const blueGreen = options.blueGreen || options.retain || config.blueGreen
+    ? { ...config.blueGreen, retain: options.retain ? parseIntOption(options.retain, '--retain') : config.blueGreen?.retain }
+    : undefined;
+  if (blueGreen && (options.incremental || options.resume)) {
+    // Every blue/green load is a full load into a new version, so there is nothing to sync or resume into
+    ConsoleHelper.writeError(`${options.incremental ? '--incremental' : '--resume'} cannot be used with blue/green loads`);
+    process.exitCode = 1;
+    return;
+  }
+  const releases = readReleases(config.name);
+  if (!blueGreen && releases) {
+    ConsoleHelper.writeWarning(
+      `${config.name} is served by the blue/green version ${releases.current}; ` +
+      `this load goes into "${config.name}" itself, which other commands do not use (pass --blue-green)`
+    );
+  }
+
+  const { client, uri } = await connectFromCommand(command);
+
+  // Load the dataset
+  const loader = new DatasetLoader(client, {
+    wait: {
+      intervalMs: parseIntOption(options.pollInterval, '--poll-interval'),
+      timeoutMs: parseIntOption(options.timeout, '--timeout') * 1000
+    },
+    upload: options.batchSize || options.resume
+      ? { batchSize: options.batchSize ? parseIntOption(options.batchSize, '--batch-size') : undefined, resume: options.resume }
+      : undefined,
+    skipValidation: options.skipValidation,
+    blueGreen
+  });
+  attachConsoleReporter(loader, { uri });
+
+  if (options.incremental) {
+    const previous = await usableManifest(client, config);
+    if (previous) {
+      ConsoleHelper.writeHeader(`Syncing Dataset: ${config.name}`);
+      const result = await loader.sync(config, previous);
+      writeSyncSummary(result);
+      // The manifest lists every record; the report only needs the counts
+      const { manifest, ...counts } = result;
+      process.exitCode = loadExitCode(counts);
+      if (manifest) {
+        writeManifest(manifest);
+      }
+      return;
+    }
+  }
+
+  ConsoleHelper.writeHeader(`Loading Dataset: ${config.name}`);
+  const result = await loader.load(config);
+  writeLoadSummary(result, config);
+
+  process.exitCode = loadExitCode(result);
+  if (!result.success) {
+    return;
+  }
+  if (options.incremental) {
+    const transform = config.transforms ? await createRecordTransform(config.transforms) : undefined;
+    try {
+      writeManifest(await buildManifest(config.name, readDatasetRecords(config, transform), config.keyField));
+    } catch (error: any) {
+      // The load itself succeeded; the next --incremental load is a full one again
+      deleteManifest(config.name);
+      ConsoleHelper.writeWarning(`No manifest recorded for incremental loads: ${error.message}`);
+    }
+  } else {
+    // A full load may leave records the manifest does not know about
+    deleteManifest(config.name);
+  }
+}
+
+/**
+ * The manifest of the previous load, when it can be used for an incremental sync
+ * Prints why a full load is needed otherwise
+ */
+async function usableManifest(client: IndxClient, config: DatasetConfig): Promise<Manifest | null> {
+  const previous = readManifest(config.name);
+  if (previous === null) {
+    ConsoleHelper.writeInfo('No previous load recorded; running a full load');
+    return null;
+  }
+  if (previous.keyField !== (config.keyField ?? DEFAULT_KEY_FIELD)) {
+    ConsoleHelper.writeInfo(`keyField changed from "${previous.keyField}"; running a full load`);
+    return null;
+  }
+  if (!(await client.getUserDataSets()).includes(config.name)) {
+    ConsoleHelper.writeInfo(`Dataset ${config.name} is not on the server; running a full load`);
+    return null;
+  }
+  return previous;
+}
+
+export function registerLoadCommand(program: Command): void {
+  program
+    .command('load', { isDefault: true })
+    .description('Load, configure and index a dataset (default command)')
+    .argument('[dataset]', 'Dataset to load. If not provided, interactive mode will prompt for selection.')
+    .option('-d, --dataset <name>', 'Dataset to load (same as the positional argument)')
+    .option('-c, --config <file>', 'Load the dataset defined in this JSON/YAML config file')
+    .option('--poll-interval <ms>', 'Initial delay between status polls (backs off up to 5s)', '100')
+    .option('--timeout <seconds>', 'Give up waiting for loading or indexing after this long (0 = never)', '1800')
+    .option('-i, --incremental', 'Upload only records that changed since the previous load and delete removed ones')
+    .option('--batch-size <records>', 'Upload in batches of this many records, with a checkpoint for --resume')
+    .option('--resume', 'Continue an interrupted batched upload without re-sending completed batches')
+    .option('--skip-validation', 'Do not check the data against the field configuration before loading')
+    .option('--blue-green', 'Load into a new versioned dataset and promote it only when every check passed')
+    .option('--retain <n>', 'Blue/green versions to keep on the server, including the current one (implies --blue-green)')
+    .action(runLoad);
+}
@@ -0,0 +1,73 @@
+/**
+ * plan command
+ * Compares the field configuration on the server with the local dataset config
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { FieldPlan, describeFieldPlan, planFields } from '../api/field-plan.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { isCiMode, stageExitCode } from '../utils/ci.js';
+import { selectConfig } from './load.js';
+import { connectFromCommand, globalOptions } from './shared.js';
+
+interface PlanOptions {
+  config?: string;
+}
+
+/**
+ * Print a plan; returns true when there are differences
+ */
+export function writeFieldPlan(plan: FieldPlan): boolean {
+  if (!plan.weightsCompared) {
+    ConsoleHelper.writeInfo('The server does not report searchable weights; weight changes are not detected.');
+  }
+
+  if (!plan.hasChanges) {
+    ConsoleHelper.writeSuccess(`No differences: ${plan.dataset} matches the config`);
+    return false;
+  }
+
+  for (const line of describeFieldPlan(plan)) {
+    if (line.startsWith('-')) {
+      ConsoleHelper.writeWarning(line);
+    } else {
+      ConsoleHelper.writeInfo(line);
+    }
+  }
+  return true;
+}
+
+async function runPlan(datasetArg: string | undefined, options: PlanOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const config = await selectConfig(configDir, datasetArg, options.config);
+  if (config === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const { client } = await connectFromCommand(command);
+  const plan = await planFields(client, { ...config, name: resolveDatasetName(config.name) });
+
+  ConsoleHelper.writeHeader(`Field Plan: ${config.name}`);
+  ConsoleHelper.writeInfo('+ set by apply   - cleared by apply   ~ weight changed');
+  console.log();
+  const drift = writeFieldPlan(plan);
+
+  if (drift) {
+    console.log();
+    ConsoleHelper.writeInfo(`Run "apply ${config.name}" to push these changes.`);
+    if (isCiMode()) {
+      ConsoleHelper.writeError('Field configuration drift detected');
+      process.exitCode = stageExitCode('configure');
+    }
+  }
+}
+
+export function registerPlanCommand(program: Command): void {
+  program
+    .command('plan')
+    .description('Show how the field configuration on the server differs from the dataset config (with --ci, drift is an error)')
+    .argument('[dataset]', 'Dataset to compare. If not provided, interactive mode will prompt for selection.')
+    .option('-c, --config <file>', 'Compare with the dataset defined in this JSON/YAML config file')
+    .action(runPlan);
+}
@@ -0,0 +1,211 @@
+/**
+ * profiles command
+ * Lists, adds and removes the named server profiles selected with --env
+ */
+import * as path from 'path';
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { Profile, TlsOptions, profilesPath, readProfiles, validateProfileName, writeProfiles } from '../config/profiles.js';
+import { deleteCachedToken } from '../utils/token-cache.js';
+import { isCiMode } from '../utils/ci.js';
+import { confirmAction, globalOptions } from './shared.js';
+
+interface AddOptions {
+  uri: string;
+  token?: string;
+  tokenEnv?: string;
+  email?: string;
+  password?: string;
+  passwordEnv?: string;
+  datasets?: string;
+  default?: boolean;
+  yes?: boolean;
+}
+
+interface RemoveOptions {
+  yes?: boolean;
+}
+
+function describeProfile(profile: Profile): string {
+  const notes = [
+    profile.auth === 'token'
+      ? `token${profile.bearerTokenEnv ? ` from ${profile.bearerTokenEnv}` : ''}`
+      : `login as ${profile.userEmail}${profile.userPasswordEnv ? `, password from ${profile.userPasswordEnv}` : ''}`,
+    ...(profile.tls?.caFile ? [`CA ${profile.tls.caFile}`] : []),
+    ...(profile.tls?.certFile ? [`client certificate ${profile.tls.certFile}`] : []),
+    ...(profile.tls?.insecure ? ['TLS not verified'] : []),
+    ...(profile.datasets ? [`datasets: ${profile.datasets.join(', ')}`] : [])
+  ];
+  return `${profile.uri}  (${notes.join('; ')})`;
+}
+
+function runList(_options: unknown, command: Command): void {
+  const profiles = readProfiles();
+  const names = Object.keys(profiles.profiles);
+  // Not activeProfile(): listing has to work when the active profile does not exist
+  const active = globalOptions(command).env || process.env.INDX_ENV || profiles.default;
+
+  ConsoleHelper.writeHeader('Profiles');
+  if (names.length === 0) {
+    ConsoleHelper.writeInfo(`No profiles in ${profilesPath()}; commands use .env.local`);
+    ConsoleHelper.writeInfo('Add one with: profiles add <name> --uri <uri> --token-env <variable>');
+    return;
+  }
+
+  for (const name of names.sort()) {
+    const marker = name === active ? '→' : ' ';
+    const label = name === profiles.default ? `${name} (default)` : name;
+    ConsoleHelper.writeInfo(`${marker} ${label.padEnd(20)} ${describeProfile(profiles.profiles[name])}`);
+  }
+  console.log();
+  if (!active) {
+    ConsoleHelper.writeInfo('No active profile; commands use .env.local (select one with --env <name> or INDX_ENV)');
+  } else if (!profiles.profiles[active]) {
+    ConsoleHelper.writeWarning(`The active profile "${active}" does not exist`);
+  }
+}
+
+/**
+ * Password for a login profile, asked for when it was not passed, so it stays out of the shell history
+ */
+async function askPassword(email: string): Promise<string | undefined> {
+  if (isCiMode() || !process.stdin.isTTY) {
+    return undefined;
+  }
+  const answer = await inquirer.prompt([
+    { type: 'password', name: 'password', message: `Password for ${email}:`, mask: '*' }
+  ]);
+  return answer.password || undefined;
+}
+
+/**
+ * TLS settings for a new profile, from the global --ca, --cert, --key and --insecure flags
+ * Paths are stored absolute, so the profile works from any directory.
+ */
+function tlsFromFlags(command: Command): TlsOptions | undefined {
+  const { ca, cert, key, insecure } = globalOptions(command);
+  const tls: TlsOptions = {
+    ...(ca ? { caFile: path.resolve(ca) } : {}),
+    ...(cert ? { certFile: path.resolve(cert) } : {}),
+    ...(key ? { keyFile: path.resolve(key) } : {}),
+    ...(insecure ? { insecure: true } : {})
+  };
+  return Object.keys(tls).length > 0 ? tls : undefined;
+}
+
+async function runAdd(name: string, options: AddOptions, command: Command): Promise<void> {
+  validateProfileName(name);
+  if (!URL.canParse(options.uri)) {
+    ConsoleHelper.writeError(`--uri must be a URL such as https://indx.example.com/, got "${options.uri}"`);
+    process.exitCode = 1;
+    return;
+  }
+  const usesToken = options.token !== undefined || options.tokenEnv !== undefined;
+  if (usesToken === (options.email !== undefined)) {
+    ConsoleHelper.writeError('Pass either --token/--token-env or --email (with --password or --password-env)');
+    process.exitCode = 1;
+    return;
+  }
+
+  const profile: Profile = { uri: options.uri.endsWith('/') ? options.uri : `${options.uri}/`, auth: usesToken ? 'token' : 'login' };
+  if (usesToken) {
+    profile.bearerToken = options.token;
+    profile.bearerTokenEnv = options.tokenEnv;
+  } else {
+    profile.userEmail = options.email;
+    profile.userPasswordEnv = options.passwordEnv;
+    profile.userPassword = options.password ?? (options.passwordEnv ? undefined : await askPassword(options.email!));
+    if (!profile.userPassword && !profile.userPasswordEnv) {
+      ConsoleHelper.writeError('A login profile needs --password or --password-env');
+      process.exitCode = 1;
+      return;
+    }
+  }
+  profile.tls = tlsFromFlags(command);
+  if (Boolean(profile.tls?.certFile) !== Boolean(profile.tls?.keyFile)) {
+    ConsoleHelper.writeError('A client certificate needs both --cert and --key');
+    process.exitCode = 1;
+    return;
+  }
+  if (options.datasets) {
+    profile.datasets = options.datasets.split(',').map(d => d.trim()).filter(d => d !== '');
+  }
+
+  const profiles = readProfiles();
+  if (profiles.profiles[name] && !await confirmAction(`Replace profile "${name}" (${profiles.profiles[name].uri})?`, options.yes)) {
+    process.exitCode = 1;
+    return;
+  }
+  profiles.profiles[name] = profile;
+  deleteCachedToken(name);
+  if (options.default) {
+    profiles.default = name;
+  }
+  writeProfiles(profiles);
+
+  ConsoleHelper.writeSuccess(`Saved profile ${name}: ${describeProfile(profile)}`);
+  if (profile.bearerToken || profile.userPassword) {
+    ConsoleHelper.writeInfo(`The credentials are stored in ${profilesPath()}, readable only by you`);
+  }
+  if (profile.tls?.insecure) {
+    ConsoleHelper.writeWarning(`The certificate of ${profile.uri} will not be verified; every command with this profile warns about it`);
+  }
+  ConsoleHelper.writeInfo(options.default ? `Commands now use ${name} by default` : `Use it with: --env ${name}`);
+}
+
+async function runRemove(name: string, options: RemoveOptions): Promise<void> {
+  const profiles = readProfiles();
+  const profile = profiles.profiles[name];
+  if (!profile) {
+    ConsoleHelper.writeError(`Unknown profile "${name}"`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!await confirmAction(`Remove profile "${name}" (${profile.uri})?`, options.yes)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  delete profiles.profiles[name];
+  deleteCachedToken(name);
+  if (profiles.default === name) {
+    delete profiles.default;
+    ConsoleHelper.writeWarning(`${name} was the default profile; commands now use .env.local unless --env is given`);
+  }
+  writeProfiles(profiles);
+  ConsoleHelper.writeSuccess(`Removed profile ${name}`);
+}
+
+export function registerProfilesCommand(program: Command): void {
+  const profiles = program
+    .command('profiles')
+    .description(`Manage named server profiles (stored in ${profilesPath()})`);
+
+  profiles
+    .command('list', { isDefault: true })
+    .description('List the profiles and which one is active')
+    .action(runList);
+
+  profiles
+    .command('add')
+    .description('Add or replace a profile (the global --ca, --cert, --key and --insecure flags are stored with it)')
+    .argument('<name>', 'Profile name, e.g. dev, staging or prod')
+    .requiredOption('--uri <uri>', 'IndxCloudApi base URI')
+    .option('--token <token>', 'Bearer token to store in the profile')
+    .option('--token-env <variable>', 'Read the bearer token from this environment variable instead of storing it')
+    .option('--email <email>', 'Log in with this email')
+    .option('--password <password>', 'Password to store in the profile (asked for when omitted)')
+    .option('--password-env <variable>', 'Read the password from this environment variable instead of storing it')
+    .option('--datasets <names>', 'Comma-separated datasets the load menu offers for this profile')
+    .option('--default', 'Use this profile when no --env is given')
+    .option('-y, --yes', 'Replace an existing profile without asking')
+    .action(runAdd);
+
+  profiles
+    .command('remove')
+    .description('Remove a profile')
+    .argument('<name>', 'Profile name')
+    .option('-y, --yes', 'Remove without asking')
+    .action(runRemove);
+}
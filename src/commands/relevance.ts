@@ -0,0 +1,69 @@
+/**
+ * relevance command
+ * Runs the golden queries of a dataset config against the loaded dataset
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { describeQueryEvaluation, runRelevanceSuite } from '../api/relevance.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { selectConfig } from './load.js';
+import { connectFromCommand, globalOptions } from './shared.js';
+
+interface RelevanceCommandOptions {
+  config?: string;
+}
+
+async function runRelevance(datasetArg: string | undefined, options: RelevanceCommandOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const config = await selectConfig(configDir, datasetArg, options.config);
+  if (config === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const queries = config.relevance?.queries ?? [];
+  if (queries.length === 0) {
+    ConsoleHelper.writeWarning(`${config.name} has no golden queries (add relevance.queries to its config)`);
+    return;
+  }
+
+  const { client } = await connectFromCommand(command);
+  ConsoleHelper.writeHeader(`Relevance: ${config.name}`);
+  const report = await runRelevanceSuite(client, { ...config, name: resolveDatasetName(config.name) });
+
+  report.queries.forEach((evaluation, idx) => {
+    const [summary, ...diff] = describeQueryEvaluation(evaluation, queries[idx].expected, report.k);
+    console.log(summary);
+    for (const line of diff) {
+      if (line.trimStart().startsWith('-')) {
+        ConsoleHelper.writeWarning(line);
+      } else {
+        ConsoleHelper.writeInfo(line);
+      }
+    }
+  });
+
+  ConsoleHelper.writeSummary('Relevance Scores', {
+    'Queries': report.queries.length,
+    [`Precision@${report.k}`]: report.precision.toFixed(3),
+    [`Recall@${report.k}`]: report.recall.toFixed(3),
+    'MRR': report.mrr.toFixed(3)
+  });
+  console.log();
+
+  if (report.passed) {
+    ConsoleHelper.writeSuccess('All relevance checks passed');
+  } else {
+    report.failures.forEach(f => ConsoleHelper.writeError(f));
+    process.exitCode = 1;
+  }
+}
+
+export function registerRelevanceCommand(program: Command): void {
+  program
+    .command('relevance')
+    .description('Score the golden queries of a dataset config against the loaded dataset')
+    .argument('[dataset]', 'Dataset to check. If not provided, interactive mode will prompt for selection.')
+    .option('-c, --config <file>', 'Use the golden queries in this JSON/YAML config file')
+    .action(runRelevance);
+}
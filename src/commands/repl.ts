@@ -0,0 +1,282 @@
+/**
+ * repl command
+ * Interactive search shell for checking search quality on a loaded dataset
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { CloudQuery, FilterProxy, Result } from '@indxsearch/indx-types';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { userStateDir } from '../utils/paths.js';
+import { isCiMode } from '../utils/ci.js';
+import { getConfig } from '../config/dataset-config.js';
+import { IndxClient } from '../api/indx-client.js';
+import { IndxError } from '../api/errors.js';
+import { createFilterFromExpression } from '../api/filters.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { connectFromCommand, globalOptions, parseIntOption, reportFilterError } from './shared.js';
+
+const HISTORY_SIZE = 500;
+
+interface ReplSettings {
+  maxNumberOfRecordsToReturn: number;
+  sortBy: string;
+  enableFacets: boolean;
+  enableBoost: boolean;
+  /** Record fields to display; empty shows the whole record */
+  displayFields: string[];
+  /** Filter expression and the filter created from it */
+  filter?: { expression: string; proxy: FilterProxy };
+}
+
+interface ReplOptions {
+  max: string;
+  sort?: string;
+  fields?: string;
+}
+
+const COMMANDS: Record<string, string> = {
+  ':facets [on|off]': 'Toggle or set enableFacets',
+  ':boost [on|off]': 'Toggle or set enableBoost',
+  ':sort <field>|none': 'Sort results by a sortable field',
+  ':filter <expr>|off': 'Filter results, e.g. :filter year:[1990..1999] AND genre:Drama',
+  ':max <n>': 'Set maxNumberOfRecordsToReturn',
+  ':fields <a,b,...>|all': 'Choose which record fields to display',
+  ':settings': 'Show the current query settings',
+  ':help': 'Show this help',
+  ':quit': 'Leave the REPL (or Ctrl+D)'
+};
+
+function historyFile(): string {
+  return path.join(userStateDir(), 'repl-history');
+}
+
+function readHistory(): string[] {
+  try {
+    // readline expects the most recent entry first
+    return fs.readFileSync(historyFile(), 'utf-8').split('\n').filter(Boolean).reverse().slice(0, HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+function writeHistory(history: string[]): void {
+  try {
+    fs.mkdirSync(userStateDir(), { recursive: true });
+    fs.writeFileSync(historyFile(), [...history].reverse().join('\n') + '\n', 'utf-8');
+  } catch {
+    // History is a convenience; failing to save it is not worth interrupting the session
+  }
+}
+
+function parseToggle(arg: string | undefined, current: boolean): boolean {
+  if (arg === 'on' || arg === 'true') return true;
+  if (arg === 'off' || arg === 'false') return false;
+  return !current;
+}
+
+function writeSettings(settings: ReplSettings): void {
+  ConsoleHelper.writeInfo(`max: ${settings.maxNumberOfRecordsToReturn}`);
+  ConsoleHelper.writeInfo(`sort: ${settings.sortBy || '(relevance)'}`);
+  ConsoleHelper.writeInfo(`facets: ${settings.enableFacets ? 'on' : 'off'}`);
+  ConsoleHelper.writeInfo(`boost: ${settings.enableBoost ? 'on' : 'off'}`);
+  ConsoleHelper.writeInfo(`filter: ${settings.filter?.expression ?? '(none)'}`);
+  ConsoleHelper.writeInfo(`fields: ${settings.displayFields.length > 0 ? settings.displayFields.join(', ') : '(all)'}`);
+}
+
+function formatRecord(json: string | undefined, fields: string[]): string {
+  if (!json) return chalk.gray('(record not found)');
+  const record = JSON.parse(json);
+  const shown = fields.length > 0 ? fields : Object.keys(record);
+  return shown
+    .map(f => `${chalk.gray(`${f}:`)} ${typeof record[f] === 'string' ? record[f] : JSON.stringify(record[f])}`)
+    .join('  ');
+}
+
+/**
+ * Run one query and print ranked results
+ */
+async function runQuery(client: IndxClient, dataset: string, text: string, settings: ReplSettings): Promise<void> {
+  const query: CloudQuery = {
+    text,
+    maxNumberOfRecordsToReturn: settings.maxNumberOfRecordsToReturn,
+    sortBy: settings.sortBy,
+    enableFacets: settings.enableFacets,
+    enableBoost: settings.enableBoost,
+    filter: settings.filter?.proxy
+  };
+
+  const startTime = Date.now();
+  const res: Result = await client.search(query, dataset);
+  const elapsed = Date.now() - startTime;
+  const records: { documentKey: number; score: number }[] = res.records ?? [];
+
+  if (records.length === 0) {
+    ConsoleHelper.writeWarning(`No results (${elapsed} ms)`);
+    return;
+  }
+
+  const json = await client.getJson(dataset, records.map(r => r.documentKey));
+  records.forEach((r, idx) => {
+    console.log(`${chalk.cyan(String(idx + 1).padStart(3))}. ${chalk.yellow(r.score.toFixed(2).padStart(7))}  ${chalk.gray(`#${r.documentKey}`)}  ${formatRecord(json[idx], settings.displayFields)}`);
+  });
+  ConsoleHelper.writeInfo(chalk.gray(`${records.length} results in ${elapsed} ms`));
+
+  const facets = (res as { facets?: unknown }).facets;
+  if (settings.enableFacets && facets && typeof facets === 'object') {
+    ConsoleHelper.writeInfo('Facets:');
+    for (const [field, values] of Object.entries(facets)) {
+      ConsoleHelper.writeInfo(`  ${field}: ${JSON.stringify(values)}`);
+    }
+  }
+}
+
+/**
+ * Handle a ":command" line; returns false when the REPL should exit
+ */
+async function handleCommand(line: string, settings: ReplSettings, client: IndxClient, dataset: string): Promise<boolean> {
+  const [command, ...args] = line.split(/\s+/);
+  const arg = args.join(' ').trim();
+
+  switch (command) {
+    case ':quit':
+    case ':exit':
+    case ':q':
+      return false;
+    case ':facets':
+      settings.enableFacets = parseToggle(arg || undefined, settings.enableFacets);
+      ConsoleHelper.writeInfo(`facets: ${settings.enableFacets ? 'on' : 'off'}`);
+      break;
+    case ':boost':
+      settings.enableBoost = parseToggle(arg || undefined, settings.enableBoost);
+      ConsoleHelper.writeInfo(`boost: ${settings.enableBoost ? 'on' : 'off'}`);
+      break;
+    case ':sort':
+      settings.sortBy = arg === 'none' ? '' : arg;
+      ConsoleHelper.writeInfo(`sort: ${settings.sortBy || '(relevance)'}`);
+      break;
+    case ':filter':
+      if (arg === '' || arg === 'off' || arg === 'none') {
+        settings.filter = undefined;
+      } else {
+        try {
+          settings.filter = { expression: arg, proxy: await createFilterFromExpression(client, dataset, arg) };
+        } catch (error) {
+          reportFilterError(error);
+          break;
+        }
+      }
+      ConsoleHelper.writeInfo(`filter: ${settings.filter?.expression ?? '(none)'}`);
+      break;
+    case ':max': {
+      const max = parseInt(arg, 10);
+      if (Number.isNaN(max) || max < 1) {
+        ConsoleHelper.writeError(':max expects a positive number');
+      } else {
+        settings.maxNumberOfRecordsToReturn = max;
+        ConsoleHelper.writeInfo(`max: ${max}`);
+      }
+      break;
+    }
+    case ':fields':
+      settings.displayFields = arg === '' || arg === 'all' ? [] : arg.split(',').map(f => f.trim()).filter(Boolean);
+      ConsoleHelper.writeInfo(`fields: ${settings.displayFields.length > 0 ? settings.displayFields.join(', ') : '(all)'}`);
+      break;
+    case ':settings':
+      writeSettings(settings);
+      break;
+    case ':help':
+      for (const [usage, description] of Object.entries(COMMANDS)) {
+        ConsoleHelper.writeInfo(`${usage.padEnd(24)} ${description}`);
+      }
+      ConsoleHelper.writeInfo(`${'<text>'.padEnd(24)} Search`);
+      break;
+    default:
+      ConsoleHelper.writeError(`Unknown command ${command} (type :help)`);
+  }
+  return true;
+}
+
+async function runRepl(dataset: string, options: ReplOptions, command: Command): Promise<void> {
+  if (isCiMode()) {
+    ConsoleHelper.writeError('repl is interactive and cannot run with --ci; use search instead');
+    process.exitCode = 1;
+    return;
+  }
+  const { configDir } = globalOptions(command);
+  const { client } = await connectFromCommand(command);
+
+  // Default to showing the searchable fields from the local config, when there is one
+  const config = getConfig(dataset, configDir);
+  const settings: ReplSettings = {
+    maxNumberOfRecordsToReturn: parseIntOption(options.max, '--max'),
+    sortBy: options.sort ?? '',
+    enableFacets: false,
+    enableBoost: false,
+    displayFields: options.fields
+      ? options.fields.split(',').map(f => f.trim()).filter(Boolean)
+      : config?.searchableFields.map(f => f.name) ?? []
+  };
+
+  const name = resolveDatasetName(dataset);
+  const allFields = await client.getAllFields(name);
+
+  ConsoleHelper.writeHeader(`Search REPL: ${dataset}`);
+  ConsoleHelper.writeInfo('Type a query to search, :help for commands, :quit to leave.');
+  writeSettings(settings);
+  console.log();
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history: readHistory(),
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+    completer: (line: string): [string[], string] => {
+      const candidates = line.startsWith(':fields ') || line.startsWith(':sort ') || line.startsWith(':filter ')
+        ? allFields.map(f => `${line.slice(0, line.lastIndexOf(' ') + 1)}${f}`)
+        : Object.keys(COMMANDS).map(c => c.split(' ')[0]);
+      const hits = candidates.filter(c => c.startsWith(line));
+      return [hits, line];
+    }
+  });
+  rl.on('history', writeHistory);
+
+  rl.setPrompt(chalk.cyan(`${dataset}> `));
+  rl.prompt();
+
+  for await (const input of rl) {
+    const line = input.trim();
+    if (line.startsWith(':')) {
+      try {
+        if (!await handleCommand(line, settings, client, name)) break;
+      } catch (error) {
+        if (!(error instanceof IndxError)) throw error;
+        ConsoleHelper.writeError(error.message);
+      }
+    } else if (line !== '') {
+      try {
+        await runQuery(client, name, line, settings);
+      } catch (error) {
+        if (!(error instanceof IndxError)) throw error;
+        ConsoleHelper.writeError(error.message);
+      }
+    }
+    rl.prompt();
+  }
+
+  rl.close();
+}
+
+export function registerReplCommand(program: Command): void {
+  program
+    .command('repl')
+    .description('Interactive search shell for a loaded dataset')
+    .argument('<dataset>', 'Dataset name')
+    .option('-n, --max <n>', 'Initial maximum number of results', '10')
+    .option('-s, --sort <field>', 'Initial sort field')
+    .option('--fields <a,b,...>', 'Record fields to display (defaults to the searchable fields from the config)')
+    .action(runRepl);
+}
@@ -0,0 +1,148 @@
+/**
+ * restore command
+ * Recreates a dataset from an archive written by export, through the load workflow
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { attachConsoleReporter, writeLoadSummary } from '../utils/console-reporter.js';
+import { ArchiveManifest, readArchive, verifyArchive } from '../api/archive.js';
+import { Connection } from '../api/connection.js';
+import { DatasetLoader, LoadResult } from '../api/load-api.js';
+import { WaitOptions } from '../api/wait-for-state.js';
+import { DatasetConfig } from '../config/dataset-config.js';
+import { deleteManifest } from '../data/manifest.js';
+import { readReleases } from '../data/releases.js';
+import { loadExitCode } from '../utils/ci.js';
+import { confirmAction, connectFromCommand, parseIntOption } from './shared.js';
+
+interface RestoreOptions {
+  as?: string;
+  blueGreen?: boolean;
+  pollInterval: string;
+  timeout: string;
+  skipValidation?: boolean;
+  yes?: boolean;
+}
+
+export interface ArchiveLoadOptions {
+  /** Load into a new version instead of replacing the dataset */
+  blueGreen: boolean;
+  wait: WaitOptions;
+  skipValidation?: boolean;
+  /** Replace an existing dataset without asking */
+  yes?: boolean;
+  /**
+   * Where the release pointer of a blue/green dataset is kept (default: that of the active profile);
+   * null when the server has no loader state, so an existing dataset cannot be replaced safely
+   */
+  stateDir?: string | null;
+}
+
+/**
+ * Load a read archive, replacing an existing dataset after confirmation
+ * The archive is read in full first. An existing dataset is replaced by loading the archive into a
+ * blue/green version and deleting the dataset only once that version was promoted, so a failed
+ * restore leaves it as it was. Prints the load as it runs and sets the exit code from its result;
+ * returns null when the archive is damaged or replacing was declined or not possible.
+ */
+export async function loadArchive(
+  connection: Connection,
+  archive: { manifest: ArchiveManifest; config: DatasetConfig },
+  options: ArchiveLoadOptions
+): Promise<LoadResult | null> {
+  const { client, uri } = connection;
+  const { config } = archive;
+  try {
+    await verifyArchive(archive.manifest, config);
+  } catch (error: any) {
+    ConsoleHelper.writeError(`${error.message}; nothing was changed on ${uri}`);
+    return null;
+  }
+
+  const replace = !options.blueGreen && (await client.getUserDataSets()).includes(config.name);
+  if (replace) {
+    if (options.stateDir === null) {
+      ConsoleHelper.writeError(
+        `${config.name} exists on ${uri}, and replacing it needs a release pointer, which is only kept for profiles and .env.local; ` +
+        'pass --as with another name, or use a profile'
+      );
+      return null;
+    }
+    if (!await confirmAction(
+      `Replace dataset "${config.name}" on ${uri}? The archive is loaded into a new blue/green version first; ` +
+      `${config.name} is deleted once that version is promoted`,
+      options.yes
+    )) {
+      return null;
+    }
+  }
+
+  const loader = new DatasetLoader(client, {
+    wait: options.wait,
+    skipValidation: options.skipValidation,
+    blueGreen: options.blueGreen || replace ? { stateDir: options.stateDir ?? undefined } : undefined
+  });
+  attachConsoleReporter(loader, { uri });
+
+  const result = await loader.load(config);
+  if (replace && result.success) {
+    try {
+      await client.deleteDataSet(config.name);
+      ConsoleHelper.writeInfo(`Deleted the replaced dataset ${config.name}; commands now use ${result.version} for ${config.name}`);
+    } catch (error: any) {
+      ConsoleHelper.writeWarning(`Could not delete the replaced dataset ${config.name} (${error.message}); ${result.version} serves ${config.name} anyway`);
+    }
+  }
+  writeLoadSummary(result, config);
+  process.exitCode = loadExitCode(result);
+  return result;
+}
+
+async function runRestore(archive: string, options: RestoreOptions, command: Command): Promise<void> {
+  const read = readArchive(archive);
+  const { manifest, config } = read;
+  if (options.as) {
+    config.name = options.as;
+  }
+
+  ConsoleHelper.writeHeader(`Restoring Dataset: ${config.name}`);
+  ConsoleHelper.writeInfo(
+    `Archive of ${manifest.exportedFrom} from ${manifest.source || 'an unknown server'}, ` +
+    `exported ${manifest.exportedAt} (${manifest.recordCount.toLocaleString()} records)`
+  );
+  if (!manifest.weightsKnown) {
+    ConsoleHelper.writeWarning('The archived searchable weights were not reported by the server; check them after restoring');
+  }
+
+  const connection = await connectFromCommand(command);
+
+  // Blue/green datasets get a new version; anything else is replaced
+  const result = await loadArchive(connection, read, {
+    blueGreen: options.blueGreen || readReleases(config.name) !== null,
+    wait: {
+      intervalMs: parseIntOption(options.pollInterval, '--poll-interval'),
+      timeoutMs: parseIntOption(options.timeout, '--timeout') * 1000
+    },
+    skipValidation: options.skipValidation,
+    yes: options.yes
+  });
+  if (result?.success) {
+    deleteManifest(config.name);
+  } else if (result === null) {
+    process.exitCode = 1;
+  }
+}
+
+export function registerRestoreCommand(program: Command): void {
+  program
+    .command('restore')
+    .description('Recreate a dataset from an archive written by export')
+    .argument('<archive>', 'Archive directory (or its archive.json)')
+    .option('--as <name>', 'Restore under another dataset name')
+    .option('--blue-green', 'Restore into a new version instead of replacing the dataset (automatic for blue/green datasets)')
+    .option('--poll-interval <ms>', 'Initial delay between status polls (backs off up to 5s)', '100')
+    .option('--timeout <seconds>', 'Give up waiting for loading or indexing after this long (0 = never)', '1800')
+    .option('--skip-validation', 'Do not check the records against the field configuration before loading')
+    .option('-y, --yes', 'Replace an existing dataset without asking')
+    .action(runRestore);
+}
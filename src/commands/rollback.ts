@@ -0,0 +1,82 @@
+/**
+ * rollback command
+ * Switches a blue/green dataset back to an earlier version
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { ReleasePointer, readReleases, rollBackTo, rollbackTarget, writeReleases } from '../data/releases.js';
+import { connectFromCommand } from './shared.js';
+
+interface RollbackOptions {
+  to?: string;
+  list?: boolean;
+}
+
+function writeVersions(pointer: ReleasePointer): void {
+  for (const version of [...pointer.versions].reverse()) {
+    const marker = version.name === pointer.current ? '→' : ' ';
+    const notes = [
+      `promoted ${version.promotedAt}`,
+      `${version.recordCount.toLocaleString()} records`,
+      ...(version.rolledBack ? ['rolled back'] : [])
+    ];
+    ConsoleHelper.writeInfo(`${marker} ${version.name}  (${notes.join(', ')})`);
+  }
+}
+
+async function runRollback(dataset: string, options: RollbackOptions, command: Command): Promise<void> {
+  const pointer = readReleases(dataset);
+  if (pointer === null) {
+    ConsoleHelper.writeError(`${dataset} has no blue/green versions (load it with --blue-green first)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.list) {
+    ConsoleHelper.writeHeader(`Versions: ${dataset}`);
+    writeVersions(pointer);
+    return;
+  }
+
+  const target = options.to
+    ? pointer.versions.find(v => v.name === options.to || v.name === `${dataset}__${options.to}`)
+    : rollbackTarget(pointer);
+  if (!target) {
+    ConsoleHelper.writeError(options.to
+      ? `${options.to} is not a version of ${dataset}`
+      : `${dataset} has no earlier version to roll back to`);
+    ConsoleHelper.writeInfo(`Versions: ${pointer.versions.map(v => v.name).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (target.name === pointer.current) {
+    ConsoleHelper.writeWarning(`${target.name} is already current`);
+    return;
+  }
+
+  // Retention may have deleted it, or someone else may have
+  const { client } = await connectFromCommand(command);
+  if (!(await client.getUserDataSets()).includes(target.name)) {
+    ConsoleHelper.writeError(`${target.name} is no longer on the server`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const previous = pointer.current;
+  rollBackTo(pointer, target.name);
+  writeReleases(pointer);
+
+  ConsoleHelper.writeSuccess(`${dataset} now serves ${target.name} (was ${previous})`);
+  console.log();
+  writeVersions(pointer);
+}
+
+export function registerRollbackCommand(program: Command): void {
+  program
+    .command('rollback')
+    .description('Switch a blue/green dataset back to its previous version')
+    .argument('<dataset>', 'Dataset name')
+    .option('--to <version>', 'Switch to this version instead (full name or its timestamp, e.g. 20261019T120000)')
+    .option('--list', 'Only list the versions')
+    .action(runRollback);
+}
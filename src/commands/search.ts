@@ -0,0 +1,84 @@
+/**
+ * search command
+ * Runs a single query against a dataset and prints the ranked results
+ */
+import { Command } from 'commander';
+import { CloudQuery } from '@indxsearch/indx-types';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { createFilterFromExpression } from '../api/filters.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { connectFromCommand, parseIntOption, reportFilterError } from './shared.js';
+
+interface SearchOptions {
+  max: string;
+  sort?: string;
+  facets?: boolean;
+  boost?: boolean;
+  filter?: string;
+  json?: boolean;
+}
+
+async function runSearch(dataset: string, text: string, options: SearchOptions, command: Command): Promise<void> {
+  const { client } = await connectFromCommand(command);
+  const name = resolveDatasetName(dataset);
+
+  const query: CloudQuery = {
+    text,
+    maxNumberOfRecordsToReturn: parseIntOption(options.max, '--max'),
+    sortBy: options.sort ?? '',
+    enableFacets: options.facets ?? false,
+    enableBoost: options.boost ?? false
+  };
+
+  if (options.filter) {
+    try {
+      query.filter = await createFilterFromExpression(client, name, options.filter);
+    } catch (error) {
+      reportFilterError(error);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const res = await client.search(query, name);
+  const records: { documentKey: number; score: number }[] = res.records ?? [];
+  const json = records.length > 0 ? await client.getJson(name, records.map(r => r.documentKey)) : [];
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      ...res,
+      records: records.map((r, idx) => ({ ...r, record: json[idx] ? JSON.parse(json[idx]) : null }))
+    }, null, 2));
+    return;
+  }
+
+  ConsoleHelper.writeHeader(`Search "${text}" in ${dataset}`);
+  if (records.length === 0) {
+    ConsoleHelper.writeWarning('No results');
+    return;
+  }
+
+  records.forEach((r, idx) => {
+    console.log(`Result ${idx + 1}:`);
+    ConsoleHelper.writeInfo(`  Score: ${r.score.toFixed(2)}`);
+    ConsoleHelper.writeInfo(`  Document Key: ${r.documentKey}`);
+    ConsoleHelper.writeInfo(`  Data: ${json[idx]}`);
+    console.log();
+  });
+  ConsoleHelper.writeSuccess(`Found ${records.length} results`);
+}
+
+export function registerSearchCommand(program: Command): void {
+  program
+    .command('search')
+    .description('Search a dataset')
+    .argument('<dataset>', 'Dataset name')
+    .argument('<query>', 'Search text')
+    .option('-n, --max <n>', 'Maximum number of results', '10')
+    .option('-s, --sort <field>', 'Sort by this sortable field')
+    .option('--facets', 'Enable facets')
+    .option('--boost', 'Enable boosts')
+    .option('-f, --filter <expression>', 'Only return records matching a filter, e.g. "speed:[10..50] AND type1:Fire"')
+    .option('--json', 'Print the raw result as JSON')
+    .action(runSearch);
+}
@@ -0,0 +1,118 @@
+/**
+ * Helpers shared by the CLI commands
+ */
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { ConfigValidationError } from '../config/dataset-config.js';
+import { FilterSyntaxError } from '../config/filter-expression.js';
+import { Connection, ConnectionSettings, connect, connectionSettingsFor, consoleRetryOptions } from '../api/connection.js';
+import { IndxError } from '../api/errors.js';
+import { isCiMode } from '../utils/ci.js';
+
+/**
+ * Options defined on the root program and available to every command
+ */
+export interface GlobalOptions {
+  configDir: string;
+  retries: string;
+  env?: string;
+  ca?: string;
+  cert?: string;
+  key?: string;
+  insecure?: boolean;
+}
+
+/**
+ * Read the global options as seen from a (sub)command
+ */
+export function globalOptions(command: Command): GlobalOptions {
+  return command.optsWithGlobals() as GlobalOptions;
+}
+
+/**
+ * Connection settings of the server selected with --env (a profile), or of the active profile or .env.local
+ * `env` selects another profile or dotenv file, see connectionSettingsFor(). TLS flags on the
+ * command line override those of the server.
+ */
+export function commandConnectionSettings(command: Command, env?: string): ConnectionSettings {
+  const options = globalOptions(command);
+  const settings = connectionSettingsFor(env ?? options.env);
+  return {
+    ...settings,
+    tls: {
+      ...settings.tls,
+      ...(options.ca ? { caFile: options.ca } : {}),
+      ...(options.cert ? { certFile: options.cert } : {}),
+      ...(options.key ? { keyFile: options.key } : {}),
+      ...(options.insecure ? { insecure: true } : {})
+    }
+  };
+}
+
+/**
+ * Connect using the global retry settings
+ * `settings` selects a server other than the one of the command, see connectionSettingsFor().
+ */
+export function connectFromCommand(command: Command, settings: ConnectionSettings = commandConnectionSettings(command)): Promise<Connection> {
+  const { retries } = globalOptions(command);
+  return connect({ retry: consoleRetryOptions(parseInt(retries, 10)) }, settings);
+}
+
+/**
+ * Print validation problems for a config file that could not be loaded
+ */
+export function reportConfigError(error: ConfigValidationError, skipped: boolean): void {
+  if (skipped) {
+    ConsoleHelper.writeWarning(`Skipping invalid config file: ${error.source}`);
+  } else {
+    ConsoleHelper.writeError(`Invalid config file: ${error.source}`);
+  }
+  for (const issue of error.issues) {
+    ConsoleHelper.writeInfo(`  ${issue.path}: ${issue.message}`);
+  }
+}
+
+/**
+ * Print why a filter expression was rejected
+ * API errors are rethrown, so connection problems reach the usual error handling.
+ */
+export function reportFilterError(error: unknown): void {
+  if (error instanceof IndxError || !(error instanceof Error)) {
+    throw error;
+  }
+  ConsoleHelper.writeError(`Invalid filter: ${error.message}`);
+  if (error instanceof FilterSyntaxError) {
+    error.excerpt().forEach(line => ConsoleHelper.writeInfo(`  ${line}`));
+  }
+}
+
+/**
+ * Ask for confirmation before a destructive action
+ * `--yes` skips the prompt; without a terminal to ask on, or in CI mode, the action is refused
+ */
+export async function confirmAction(message: string, assumeYes: boolean | undefined): Promise<boolean> {
+  if (assumeYes) {
+    return true;
+  }
+  if (isCiMode() || !process.stdin.isTTY) {
+    ConsoleHelper.writeError(`${message} - refusing without confirmation (pass --yes to confirm non-interactively)`);
+    return false;
+  }
+
+  const answer = await inquirer.prompt([
+    { type: 'confirm', name: 'confirmed', message, default: false }
+  ]);
+  return answer.confirmed;
+}
+
+/**
+ * Parse an integer option, failing with a readable message
+ */
+export function parseIntOption(value: string, name: string): number {
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
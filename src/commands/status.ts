@@ -0,0 +1,37 @@
+/**
+ * status command
+ * Shows the system status and record count of a dataset
+ */
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { stateName } from '../api/wait-for-state.js';
+import { resolveDatasetName } from '../data/releases.js';
+import { connectFromCommand } from './shared.js';
+
+async function runStatus(dataset: string, _options: unknown, command: Command): Promise<void> {
+  const { client } = await connectFromCommand(command);
+  const name = resolveDatasetName(dataset);
+
+  const status = await client.getStatus(name);
+  const recordCount = await client.getNumberOfJsonRecordsInDb(name);
+
+  const items: Record<string, unknown> = {
+    ...(name !== dataset ? { 'Current Version': name } : {}),
+    'State': stateName(status.systemState),
+    'Records in DB': recordCount.toLocaleString()
+  };
+  for (const [key, value] of Object.entries(status)) {
+    if (key !== 'systemState') {
+      items[key] = typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+    }
+  }
+  ConsoleHelper.writeSummary(`Status: ${dataset}`, items);
+}
+
+export function registerStatusCommand(program: Command): void {
+  program
+    .command('status')
+    .description('Show the status of a dataset on the server')
+    .argument('<dataset>', 'Dataset name')
+    .action(runStatus);
+}
@@ -0,0 +1,83 @@
+/**
+ * validate command
+ * Checks a data file against its dataset config without contacting the server
+ */
+import * as fs from 'fs';
+import { Command } from 'commander';
+import { ConsoleHelper } from '../utils/console-helper.js';
+import { createRecordTransform, readDatasetRecords } from '../data/transforms.js';
+import { describeDataIssue, describeFieldReport, validateRecords } from '../data/data-validation.js';
+import { selectConfig } from './load.js';
+import { globalOptions } from './shared.js';
+
+interface ValidateOptions {
+  config?: string;
+  strict?: boolean;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+async function runValidate(datasetArg: string | undefined, options: ValidateOptions, command: Command): Promise<void> {
+  const { configDir } = globalOptions(command);
+  const config = await selectConfig(configDir, datasetArg, options.config);
+  if (config === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!fs.existsSync(config.filePath)) {
+    ConsoleHelper.writeError(`Data file not found: ${config.filePath}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  ConsoleHelper.writeHeader(`Data Validation: ${config.name}`);
+  ConsoleHelper.writeInfo(`Reading ${config.filePath}...`);
+
+  const transform = config.transforms ? await createRecordTransform(config.transforms) : undefined;
+  const report = await validateRecords(config, readDatasetRecords(config, transform), {
+    strict: options.strict || undefined,
+    onProgress: count => ConsoleHelper.writeProgress(`Profiling records (${count.toLocaleString()})   `)
+  });
+  if (report.recordCount >= 1000) {
+    console.log(); // New line after progress
+  }
+
+  ConsoleHelper.writeInfo(`${report.recordCount.toLocaleString()} records, ${report.fields.length} configured fields`);
+  console.log();
+  for (const field of report.fields) {
+    ConsoleHelper.writeInfo(`${describeFieldReport(field)}  (${field.categories.join(', ')})`);
+  }
+
+  if (report.issues.length > 0) {
+    console.log();
+  }
+  for (const issue of report.issues) {
+    if (issue.severity === 'error') {
+      ConsoleHelper.writeError(describeDataIssue(issue));
+    } else {
+      ConsoleHelper.writeWarning(describeDataIssue(issue));
+    }
+  }
+
+  const counts = `${plural(report.errors, 'error')}, ${plural(report.warnings, 'warning')}`;
+  console.log();
+  if (report.passed) {
+    ConsoleHelper.writeSuccess(`${config.name} passed validation (${counts})`);
+  } else {
+    ConsoleHelper.writeError(`${config.name} failed validation (${counts})`);
+    process.exitCode = 1;
+  }
+}
+
+export function registerValidateCommand(program: Command): void {
+  program
+    .command('validate')
+    .description('Check a data file against the fields its dataset config uses, without loading it')
+    .argument('[dataset]', 'Dataset to validate. If not provided, interactive mode will prompt for selection.')
+    .option('-c, --config <file>', 'Validate the dataset defined in this JSON/YAML config file')
+    .option('--strict', 'Fail on warnings as well as errors')
+    .action(runValidate);
+}
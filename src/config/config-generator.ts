@@ -0,0 +1,158 @@
+/**
+ * DatasetConfig generator
+ * Proposes field settings from a field profile so users only have to review them
+ */
+import { DatasetConfig, SearchableField, Weight } from './dataset-config.js';
+import type { FieldProfile } from '../data/field-profiler.js';
+
+export interface GeneratorOptions {
+  /** Max distinct values for a field to be proposed as facetable */
+  maxFacetValues?: number;
+  /** Average string length from which text counts as "long" (description-like) */
+  longTextLength?: number;
+  /** Field names reported by the server (getAllFields); fields not in this list are skipped */
+  serverFields?: string[];
+}
+
+export interface GeneratedConfig {
+  config: DatasetConfig;
+  /** One line per field explaining what was proposed and why */
+  notes: string[];
+}
+
+const DEFAULT_MAX_FACET_VALUES = 50;
+const DEFAULT_LONG_TEXT_LENGTH = 60;
+
+// Identifier-like fields are rarely useful to search, facet or sort on
+const ID_PATTERN = /^(id|_id|uuid|guid|key)$|_id$/i;
+
+function isNumeric(profile: FieldProfile): boolean {
+  return profile.type === 'integer' || profile.type === 'number';
+}
+
+function isText(profile: FieldProfile): boolean {
+  return profile.type === 'string' || (profile.type === 'array' && profile.elementType === 'string');
+}
+
+function presentRatio(profile: FieldProfile): number {
+  return profile.totalRecords > 0 ? profile.presentCount / profile.totalRecords : 0;
+}
+
+function cardinalityRatio(profile: FieldProfile): number {
+  return profile.presentCount > 0 ? profile.distinctCount / profile.presentCount : 0;
+}
+
+/**
+ * Propose a DatasetConfig from field profiles
+ *
+ * Heuristics:
+ * - Short, mostly unique text (titles, names) → searchable High + word indexing
+ * - Long text (descriptions) → searchable Med
+ * - Arrays of strings (tags, actors) → searchable Low
+ * - Low-cardinality values → facetable and filterable
+ * - Numbers → filterable and sortable
+ */
+export function generateConfig(name: string, filePath: string, profiles: FieldProfile[], options: GeneratorOptions = {}): GeneratedConfig {
+  const maxFacetValues = options.maxFacetValues ?? DEFAULT_MAX_FACET_VALUES;
+  const longTextLength = options.longTextLength ?? DEFAULT_LONG_TEXT_LENGTH;
+  const serverFields = options.serverFields ? new Set(options.serverFields) : null;
+
+  const searchableFields: SearchableField[] = [];
+  const wordIndexingFields: string[] = [];
+  const filterableFields: string[] = [];
+  const facetableFields: string[] = [];
+  const sortableFields: string[] = [];
+  const notes: string[] = [];
+
+  for (const profile of profiles) {
+    const roles: string[] = [];
+
+    if (serverFields && !serverFields.has(profile.name)) {
+      notes.push(`${profile.name}: skipped (not reported by the server)`);
+      continue;
+    }
+    if (profile.type === 'null' || profile.type === 'object') {
+      notes.push(`${profile.name}: skipped (${profile.type === 'null' ? 'always empty' : 'nested object'})`);
+      continue;
+    }
+    if (ID_PATTERN.test(profile.name)) {
+      notes.push(`${profile.name}: skipped (identifier)`);
+      continue;
+    }
+
+    const lowCardinality = !profile.distinctCapped && profile.distinctCount <= maxFacetValues && profile.distinctCount > 0;
+
+    if (isText(profile)) {
+      if (profile.type === 'array') {
+        searchableFields.push({ name: profile.name, weight: Weight.Low });
+        roles.push('searchable (Low)');
+      } else if ((profile.avgLength ?? 0) >= longTextLength) {
+        searchableFields.push({ name: profile.name, weight: Weight.Med });
+        roles.push('searchable (Med)');
+      } else if (!lowCardinality && cardinalityRatio(profile) >= 0.5) {
+        searchableFields.push({ name: profile.name, weight: Weight.High });
+        wordIndexingFields.push(profile.name);
+        roles.push('searchable (High)', 'word indexing');
+      }
+    }
+
+    if (lowCardinality || profile.type === 'boolean') {
+      facetableFields.push(profile.name);
+      filterableFields.push(profile.name);
+      roles.push('facetable', 'filterable');
+    }
+
+    if (isNumeric(profile)) {
+      if (!filterableFields.includes(profile.name)) {
+        filterableFields.push(profile.name);
+        roles.push('filterable');
+      }
+      sortableFields.push(profile.name);
+      roles.push('sortable');
+    }
+
+    if (roles.length === 0) {
+      notes.push(`${profile.name}: not configured`);
+    } else {
+      notes.push(`${profile.name}: ${roles.join(', ')}`);
+    }
+
+    if (roles.length > 0 && presentRatio(profile) < 0.5) {
+      notes.push(`${profile.name}: warning - only present in ${(presentRatio(profile) * 100).toFixed(0)}% of records`);
+    }
+  }
+
+  // Highest weight first, as in hand-written configs
+  searchableFields.sort((a, b) => a.weight - b.weight);
+
+  return {
+    config: {
+      name,
+      filePath,
+      searchableFields,
+      wordIndexingFields,
+      filterableFields,
+      facetableFields,
+      sortableFields,
+      testQuery: proposeTestQuery(profiles, searchableFields)
+    },
+    notes
+  };
+}
+
+/**
+ * Use the first word of a sample value from the most important searchable field
+ */
+function proposeTestQuery(profiles: FieldProfile[], searchableFields: SearchableField[]): string {
+  for (const field of searchableFields) {
+    const profile = profiles.find(p => p.name === field.name);
+    for (const sample of profile?.samples ?? []) {
+      const text = Array.isArray(sample) ? sample[0] : sample;
+      if (typeof text === 'string') {
+        const word = text.trim().split(/\s+/)[0];
+        if (word) return word.toLowerCase();
+      }
+    }
+  }
+  return '';
+}
@@ -0,0 +1,684 @@
+/**
+ * Schema validation for dataset configuration files
+ * Turns parsed JSON/YAML into a typed DatasetConfig with per-field error messages
+ */
+import type {
+  BlueGreenOptions,
+  BoostDef,
+  BoostStrengthName,
+  CoerceType,
+  ExpectedHit,
+  GoldenQuery,
+  DatasetConfig,
+  FilterDef,
+  FilterRef,
+  InputFormat,
+  InputOptions,
+  NamedFilter,
+  RelevanceOptions,
+  SearchableField,
+  TransformStep,
+  ValidationOptions
+} from './dataset-config.js';
+import { FilterSyntaxError, filterFields, filterReferences, parseFilterExpression } from './filter-expression.js';
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a dataset configuration file does not match the schema.
+ * Every problem found is listed in `issues`, not just the first one.
+ */
+export class ConfigValidationError extends Error {
+  readonly source: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(`Invalid dataset configuration in ${source}:\n${issues.map(i => `  - ${i.path}: ${i.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const WEIGHT_NAMES: Record<string, number> = { high: 0, med: 1, medium: 1, low: 2 };
+
+const KNOWN_KEYS = [
+  'name',
+  'filePath',
+  'searchableFields',
+  'wordIndexingFields',
+  'filterableFields',
+  'facetableFields',
+  'sortableFields',
+  'testQuery',
+  'keyField',
+  'input',
+  'transforms',
+  'validation',
+  'filters',
+  'boosts',
+  'relevance',
+  'blueGreen'
+];
+
+const INPUT_KEYS = ['format', 'compression', 'delimiter', 'columns'];
+const INPUT_FORMATS: InputFormat[] = ['json', 'ndjson', 'csv'];
+
+const VALIDATION_KEYS = ['maxMissingPercent', 'maxMixedTypePercent', 'strict', 'skip'];
+
+const FILTER_KEYS = ['name', 'field', 'value', 'min', 'max', 'all', 'any', 'expression'];
+const BOOST_STRENGTHS: BoostStrengthName[] = ['Low', 'Med', 'High'];
+
+const RELEVANCE_KEYS = ['k', 'minPrecision', 'minRecall', 'minMrr', 'queries'];
+const GOLDEN_QUERY_KEYS = ['query', 'expected', 'filter', 'boost'];
+
+const TRANSFORM_KINDS = ['rename', 'drop', 'coerce', 'parseArray', 'compute', 'module'];
+const COERCE_TYPES: CoerceType[] = ['string', 'number', 'integer', 'boolean'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validate a raw configuration object
+ * `defaultName` is used when the file does not declare a `name` (usually the file name)
+ */
+export function validateDatasetConfig(raw: unknown, source: string, defaultName?: string): DatasetConfig {
+  const issues: ConfigIssue[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new ConfigValidationError(source, [{ path: '(root)', message: `expected an object, got ${describe(raw)}` }]);
+  }
+
+  const readString = (key: string, required: boolean, fallback?: string): string => {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+      if (fallback !== undefined) return fallback;
+      if (required) issues.push({ path: key, message: 'is required' });
+      return '';
+    }
+    if (typeof value !== 'string') {
+      issues.push({ path: key, message: `expected a string, got ${describe(value)}` });
+      return '';
+    }
+    if (required && value.trim() === '') {
+      issues.push({ path: key, message: 'must not be empty' });
+    }
+    return value;
+  };
+
+  const readStringList = (key: string): string[] => {
+    const value = raw[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issues.push({ path: key, message: `expected an array of field names, got ${describe(value)}` });
+      return [];
+    }
+    const result: string[] = [];
+    value.forEach((item, idx) => {
+      if (typeof item !== 'string' || item.trim() === '') {
+        issues.push({ path: `${key}[${idx}]`, message: `expected a non-empty field name, got ${describe(item)}` });
+      } else if (result.includes(item)) {
+        issues.push({ path: `${key}[${idx}]`, message: `duplicate field "${item}"` });
+      } else {
+        result.push(item);
+      }
+    });
+    return result;
+  };
+
+  const readSearchableFields = (): SearchableField[] => {
+    const value = raw.searchableFields;
+    if (value === undefined || value === null) {
+      issues.push({ path: 'searchableFields', message: 'is required' });
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      issues.push({ path: 'searchableFields', message: `expected an array, got ${describe(value)}` });
+      return [];
+    }
+    if (value.length === 0) {
+      issues.push({ path: 'searchableFields', message: 'must contain at least one field' });
+    }
+
+    const result: SearchableField[] = [];
+    value.forEach((item, idx) => {
+      const at = `searchableFields[${idx}]`;
+      if (!isPlainObject(item)) {
+        issues.push({ path: at, message: `expected { name, weight }, got ${describe(item)}` });
+        return;
+      }
+      if (typeof item.name !== 'string' || item.name.trim() === '') {
+        issues.push({ path: `${at}.name`, message: 'expected a non-empty field name' });
+        return;
+      }
+
+      let weight: number | undefined;
+      if (typeof item.weight === 'number') {
+        weight = item.weight;
+      } else if (typeof item.weight === 'string') {
+        weight = WEIGHT_NAMES[item.weight.toLowerCase()];
+      }
+      if (weight === undefined || !Number.isInteger(weight) || weight < 0 || weight > 2) {
+        issues.push({ path: `${at}.weight`, message: `expected High, Med, Low or 0-2, got ${JSON.stringify(item.weight)}` });
+        return;
+      }
+
+      if (result.some(f => f.name === item.name)) {
+        issues.push({ path: `${at}.name`, message: `duplicate field "${item.name}"` });
+        return;
+      }
+      result.push({ name: item.name, weight });
+    });
+    return result;
+  };
+
+  const readInput = (): InputOptions | undefined => {
+    const value = raw.input;
+    if (value === undefined || value === null) return undefined;
+    if (!isPlainObject(value)) {
+      issues.push({ path: 'input', message: `expected an object, got ${describe(value)}` });
+      return undefined;
+    }
+
+    const input: InputOptions = {};
+    for (const key of Object.keys(value)) {
+      if (!INPUT_KEYS.includes(key)) {
+        issues.push({ path: `input.${key}`, message: 'unknown property' });
+      }
+    }
+    if (value.format !== undefined) {
+      if (INPUT_FORMATS.includes(value.format as InputFormat)) {
+        input.format = value.format as InputFormat;
+      } else {
+        issues.push({ path: 'input.format', message: `expected ${INPUT_FORMATS.join(', ')}, got ${JSON.stringify(value.format)}` });
+      }
+    }
+    if (value.compression !== undefined) {
+      if (value.compression === 'gzip' || value.compression === 'none') {
+        input.compression = value.compression;
+      } else {
+        issues.push({ path: 'input.compression', message: `expected gzip or none, got ${JSON.stringify(value.compression)}` });
+      }
+    }
+    if (value.delimiter !== undefined) {
+      if (typeof value.delimiter === 'string' && value.delimiter.length === 1 && value.delimiter !== '"') {
+        input.delimiter = value.delimiter;
+      } else {
+        issues.push({ path: 'input.delimiter', message: `expected a single character, got ${JSON.stringify(value.delimiter)}` });
+      }
+    }
+    if (value.columns !== undefined) {
+      if (!isPlainObject(value.columns)) {
+        issues.push({ path: 'input.columns', message: `expected a map of column types, got ${describe(value.columns)}` });
+      } else {
+        input.columns = {};
+        for (const [column, type] of Object.entries(value.columns)) {
+          if (COERCE_TYPES.includes(type as CoerceType)) {
+            input.columns[column] = type as CoerceType;
+          } else {
+            issues.push({ path: `input.columns.${column}`, message: `expected ${COERCE_TYPES.join(', ')}, got ${JSON.stringify(type)}` });
+          }
+        }
+      }
+    }
+    return input;
+  };
+
+  const readTransforms = (): TransformStep[] => {
+    const value = raw.transforms;
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issues.push({ path: 'transforms', message: `expected an array of steps, got ${describe(value)}` });
+      return [];
+    }
+
+    const result: TransformStep[] = [];
+    value.forEach((item, idx) => {
+      const at = `transforms[${idx}]`;
+      const keys = isPlainObject(item) ? Object.keys(item) : [];
+      if (!isPlainObject(item) || keys.length !== 1 || !TRANSFORM_KINDS.includes(keys[0])) {
+        issues.push({ path: at, message: `expected one of ${TRANSFORM_KINDS.join(', ')} as the only key` });
+        return;
+      }
+
+      const kind = keys[0];
+      const arg = item[kind];
+      const stringMap = (check?: (v: string) => string | null): boolean => {
+        if (!isPlainObject(arg) || Object.keys(arg).length === 0) {
+          issues.push({ path: `${at}.${kind}`, message: `expected a non-empty map of field names, got ${describe(arg)}` });
+          return false;
+        }
+        let ok = true;
+        for (const [field, v] of Object.entries(arg)) {
+          const problem = typeof v !== 'string' || v.trim() === '' ? `expected a non-empty string, got ${describe(v)}` : check?.(v) ?? null;
+          if (problem) {
+            issues.push({ path: `${at}.${kind}.${field}`, message: problem });
+            ok = false;
+          }
+        }
+        return ok;
+      };
+
+      switch (kind) {
+        case 'rename':
+        case 'compute':
+          if (stringMap()) result.push({ [kind]: arg } as TransformStep);
+          break;
+        case 'coerce':
+          if (stringMap(v => COERCE_TYPES.includes(v as CoerceType) ? null : `expected ${COERCE_TYPES.join(', ')}, got "${v}"`)) {
+            result.push({ coerce: arg as Record<string, CoerceType> });
+          }
+          break;
+        case 'drop':
+        case 'parseArray':
+          if (!Array.isArray(arg) || arg.length === 0 || arg.some(f => typeof f !== 'string' || f.trim() === '')) {
+            issues.push({ path: `${at}.${kind}`, message: 'expected a non-empty array of field names' });
+          } else {
+            result.push({ [kind]: arg } as TransformStep);
+          }
+          break;
+        case 'module':
+          if (typeof arg !== 'string' || arg.trim() === '') {
+            issues.push({ path: `${at}.module`, message: 'expected the path of a transform module' });
+          } else {
+            result.push({ module: arg });
+          }
+          break;
+      }
+    });
+    return result;
+  };
+
+  const readValidation = (): ValidationOptions | undefined => {
+    const value = raw.validation;
+    if (value === undefined || value === null) return undefined;
+    if (!isPlainObject(value)) {
+      issues.push({ path: 'validation', message: `expected an object, got ${describe(value)}` });
+      return undefined;
+    }
+
+    const validation: ValidationOptions = {};
+    for (const [key, setting] of Object.entries(value)) {
+      const at = `validation.${key}`;
+      if (!VALIDATION_KEYS.includes(key)) {
+        issues.push({ path: at, message: 'unknown property' });
+      } else if (key === 'strict' || key === 'skip') {
+        if (typeof setting === 'boolean') {
+          validation[key] = setting;
+        } else {
+          issues.push({ path: at, message: `expected true or false, got ${describe(setting)}` });
+        }
+      } else if (typeof setting === 'number' && setting >= 0 && setting <= 100) {
+        validation[key as 'maxMissingPercent' | 'maxMixedTypePercent'] = setting;
+      } else {
+        issues.push({ path: at, message: `expected a percentage from 0 to 100, got ${JSON.stringify(setting)}` });
+      }
+    }
+    return validation;
+  };
+
+  /**
+   * Read a filter reference: the name of a filter defined earlier, an expression, or a definition object
+   */
+  const readFilterRef = (value: unknown, at: string, defined: string[], filterable: string[]): FilterRef | undefined => {
+    if (typeof value !== 'string') {
+      return readFilterDef(value, at, defined, filterable);
+    }
+
+    let ref: FilterRef;
+    try {
+      ref = parseFilterExpression(value);
+    } catch (error) {
+      if (!(error instanceof FilterSyntaxError)) throw error;
+      issues.push({ path: at, message: error.message });
+      return undefined;
+    }
+
+    let valid = true;
+    for (const name of filterReferences(ref).filter(n => !defined.includes(n))) {
+      issues.push({ path: at, message: `unknown filter "${name}" (filters can only refer to filters defined before them)` });
+      valid = false;
+    }
+    for (const field of filterFields(ref).filter(f => !filterable.includes(f))) {
+      issues.push({ path: at, message: `"${field}" is not in filterableFields` });
+      valid = false;
+    }
+    return valid ? ref : undefined;
+  };
+
+  /**
+   * Read one filter definition; names may only refer to filters defined before it
+   * `named` allows the `name` and `expression` keys of top-level filters.
+   */
+  const readFilterDef = (value: unknown, at: string, defined: string[], filterable: string[], named = false): FilterDef | undefined => {
+    if (!isPlainObject(value)) {
+      issues.push({ path: at, message: `expected a filter definition, got ${describe(value)}` });
+      return undefined;
+    }
+    for (const key of Object.keys(value)) {
+      if (!FILTER_KEYS.includes(key) || ((key === 'name' || key === 'expression') && !named)) {
+        issues.push({ path: `${at}.${key}`, message: 'unknown property' });
+      }
+    }
+
+    const kinds = ['field', 'all', 'any', 'expression'].filter(k => value[k] !== undefined);
+    if (kinds.length !== 1) {
+      issues.push({ path: at, message: `expected exactly one of field, all, any${named ? ' or expression' : ' or a filter name'}` });
+      return undefined;
+    }
+
+    if (kinds[0] === 'expression') {
+      if (typeof value.expression !== 'string') {
+        issues.push({ path: `${at}.expression`, message: `expected a filter expression, got ${describe(value.expression)}` });
+        return undefined;
+      }
+      const ref = readFilterRef(value.expression, `${at}.expression`, defined, filterable);
+      if (typeof ref === 'string') {
+        issues.push({ path: `${at}.expression`, message: `only names filter "${ref}"; use it directly instead` });
+        return undefined;
+      }
+      return ref;
+    }
+
+    if (kinds[0] === 'all' || kinds[0] === 'any') {
+      const operator = kinds[0];
+      const items = value[operator];
+      if (!Array.isArray(items) || items.length < 2) {
+        issues.push({ path: `${at}.${operator}`, message: 'expected an array of at least two filters' });
+        return undefined;
+      }
+      const refs: FilterRef[] = [];
+      items.forEach((item, idx) => {
+        const ref = readFilterRef(item, `${at}.${operator}[${idx}]`, defined, filterable);
+        if (ref !== undefined) refs.push(ref);
+      });
+      return refs.length === items.length ? { [operator]: refs } as FilterDef : undefined;
+    }
+
+    const field = value.field;
+    if (typeof field !== 'string' || field.trim() === '') {
+      issues.push({ path: `${at}.field`, message: 'expected a non-empty field name' });
+      return undefined;
+    }
+    if (!filterable.includes(field)) {
+      issues.push({ path: `${at}.field`, message: `"${field}" is not in filterableFields` });
+    }
+
+    if (value.value !== undefined) {
+      if (value.min !== undefined || value.max !== undefined) {
+        issues.push({ path: at, message: 'expected either value or min/max, not both' });
+        return undefined;
+      }
+      if (!['string', 'number', 'boolean'].includes(typeof value.value)) {
+        issues.push({ path: `${at}.value`, message: `expected a string, number or boolean, got ${describe(value.value)}` });
+        return undefined;
+      }
+      return { field, value: value.value as string | number | boolean };
+    }
+
+    if (typeof value.min !== 'number' || typeof value.max !== 'number') {
+      issues.push({ path: at, message: 'expected a value, or numeric min and max' });
+      return undefined;
+    }
+    if (value.min > value.max) {
+      issues.push({ path: at, message: `min (${value.min}) is greater than max (${value.max})` });
+      return undefined;
+    }
+    return { field, min: value.min, max: value.max };
+  };
+
+  const readFilters = (filterable: string[]): NamedFilter[] => {
+    const value = raw.filters;
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issues.push({ path: 'filters', message: `expected an array of filters, got ${describe(value)}` });
+      return [];
+    }
+
+    const result: NamedFilter[] = [];
+    const defined: string[] = [];
+    value.forEach((item, idx) => {
+      const at = `filters[${idx}]`;
+      const name = isPlainObject(item) ? item.name : undefined;
+      if (typeof name !== 'string' || name.trim() === '') {
+        issues.push({ path: `${at}.name`, message: 'expected a non-empty filter name' });
+        return;
+      }
+      if (defined.includes(name)) {
+        issues.push({ path: `${at}.name`, message: `duplicate filter "${name}"` });
+        return;
+      }
+      const def = readFilterDef(item, at, defined, filterable, true);
+      defined.push(name);
+      if (def) result.push({ name, ...def });
+    });
+    return result;
+  };
+
+  const readBoosts = (filters: string[], filterable: string[]): BoostDef[] => {
+    const value = raw.boosts;
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issues.push({ path: 'boosts', message: `expected an array of boosts, got ${describe(value)}` });
+      return [];
+    }
+
+    const result: BoostDef[] = [];
+    value.forEach((item, idx) => {
+      const at = `boosts[${idx}]`;
+      if (!isPlainObject(item)) {
+        issues.push({ path: at, message: `expected { filter, strength }, got ${describe(item)}` });
+        return;
+      }
+      for (const key of Object.keys(item)) {
+        if (key !== 'filter' && key !== 'strength') {
+          issues.push({ path: `${at}.${key}`, message: 'unknown property' });
+        }
+      }
+
+      const strength = BOOST_STRENGTHS.find(s => typeof item.strength === 'string' && s.toLowerCase() === item.strength.toLowerCase());
+      if (!strength) {
+        issues.push({ path: `${at}.strength`, message: `expected Low, Med or High, got ${JSON.stringify(item.strength)}` });
+      }
+
+      const filter = readFilterRef(item.filter, `${at}.filter`, filters, filterable);
+
+      if (filter !== undefined && strength) {
+        result.push({ filter, strength });
+      }
+    });
+    return result;
+  };
+
+  const readExpectedHit = (item: unknown, at: string): ExpectedHit | undefined => {
+    if (Number.isInteger(item) && (item as number) >= 0) {
+      return item as number;
+    }
+    if (isPlainObject(item) && Number.isInteger(item.key) && Number.isInteger(item.rank) && (item.rank as number) >= 1) {
+      const extra = Object.keys(item).filter(k => k !== 'key' && k !== 'rank');
+      if (extra.length === 0) {
+        return { key: item.key as number, rank: item.rank as number };
+      }
+    }
+    issues.push({ path: at, message: `expected a document key or { key, rank }, got ${JSON.stringify(item)}` });
+    return undefined;
+  };
+
+  const readGoldenQuery = (item: unknown, at: string, filterable: string[]): GoldenQuery | undefined => {
+    if (!isPlainObject(item)) {
+      issues.push({ path: at, message: `expected { query, expected }, got ${describe(item)}` });
+      return undefined;
+    }
+    for (const key of Object.keys(item)) {
+      if (!GOLDEN_QUERY_KEYS.includes(key)) {
+        issues.push({ path: `${at}.${key}`, message: 'unknown property' });
+      }
+    }
+
+    if (typeof item.query !== 'string' || item.query.trim() === '') {
+      issues.push({ path: `${at}.query`, message: 'expected a non-empty query' });
+      return undefined;
+    }
+    if (!Array.isArray(item.expected) || item.expected.length === 0) {
+      issues.push({ path: `${at}.expected`, message: 'expected a non-empty array of document keys' });
+      return undefined;
+    }
+    const expected = item.expected.map((hit, idx) => readExpectedHit(hit, `${at}.expected[${idx}]`));
+    const golden: GoldenQuery = { query: item.query, expected: expected.filter((h): h is ExpectedHit => h !== undefined) };
+
+    if (item.filter !== undefined) {
+      // Named filters are not resolved for queries, so the expression must spell the filter out
+      if (typeof item.filter !== 'string') {
+        issues.push({ path: `${at}.filter`, message: `expected a filter expression, got ${describe(item.filter)}` });
+      } else if (readFilterRef(item.filter, `${at}.filter`, [], filterable) !== undefined) {
+        golden.filter = item.filter;
+      }
+    }
+    if (item.boost !== undefined) {
+      if (typeof item.boost === 'boolean') {
+        golden.boost = item.boost;
+      } else {
+        issues.push({ path: `${at}.boost`, message: `expected true or false, got ${describe(item.boost)}` });
+      }
+    }
+    return golden;
+  };
+
+  const readRelevance = (filterable: string[]): RelevanceOptions | undefined => {
+    const value = raw.relevance;
+    if (value === undefined || value === null) return undefined;
+    if (!isPlainObject(value)) {
+      issues.push({ path: 'relevance', message: `expected an object, got ${describe(value)}` });
+      return undefined;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!RELEVANCE_KEYS.includes(key)) {
+        issues.push({ path: `relevance.${key}`, message: 'unknown property' });
+      }
+    }
+
+    const relevance: RelevanceOptions = { queries: [] };
+    if (value.k !== undefined) {
+      if (Number.isInteger(value.k) && (value.k as number) >= 1) {
+        relevance.k = value.k as number;
+      } else {
+        issues.push({ path: 'relevance.k', message: `expected a positive integer, got ${JSON.stringify(value.k)}` });
+      }
+    }
+    for (const key of ['minPrecision', 'minRecall', 'minMrr'] as const) {
+      const threshold = value[key];
+      if (threshold === undefined) continue;
+      if (typeof threshold === 'number' && threshold >= 0 && threshold <= 1) {
+        relevance[key] = threshold;
+      } else {
+        issues.push({ path: `relevance.${key}`, message: `expected a number from 0 to 1, got ${JSON.stringify(threshold)}` });
+      }
+    }
+
+    if (!Array.isArray(value.queries) || value.queries.length === 0) {
+      issues.push({ path: 'relevance.queries', message: 'expected a non-empty array of queries' });
+      return undefined;
+    }
+    value.queries.forEach((item, idx) => {
+      const golden = readGoldenQuery(item, `relevance.queries[${idx}]`, filterable);
+      if (golden) relevance.queries.push(golden);
+    });
+    return relevance;
+  };
+
+  const readBlueGreen = (): BlueGreenOptions | undefined => {
+    const value = raw.blueGreen;
+    if (value === undefined || value === null || value === false) return undefined;
+    if (value === true) return {};
+    if (!isPlainObject(value)) {
+      issues.push({ path: 'blueGreen', message: `expected true, false or an object, got ${describe(value)}` });
+      return undefined;
+    }
+
+    const blueGreen: BlueGreenOptions = {};
+    for (const [key, setting] of Object.entries(value)) {
+      if (key !== 'retain') {
+        issues.push({ path: `blueGreen.${key}`, message: 'unknown property' });
+      } else if (Number.isInteger(setting) && (setting as number) >= 1) {
+        blueGreen.retain = setting as number;
+      } else {
+        issues.push({ path: 'blueGreen.retain', message: `expected a positive integer, got ${JSON.stringify(setting)}` });
+      }
+    }
+    return blueGreen;
+  };
+
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      issues.push({ path: key, message: 'unknown property' });
+    }
+  }
+
+  const config: DatasetConfig = {
+    name: readString('name', true, defaultName),
+    filePath: readString('filePath', true),
+    searchableFields: readSearchableFields(),
+    wordIndexingFields: readStringList('wordIndexingFields'),
+    filterableFields: readStringList('filterableFields'),
+    facetableFields: readStringList('facetableFields'),
+    sortableFields: readStringList('sortableFields'),
+    testQuery: readString('testQuery', true)
+  };
+
+  const keyField = readString('keyField', false);
+  if (keyField) {
+    config.keyField = keyField;
+  }
+  const input = readInput();
+  if (input) {
+    config.input = input;
+  }
+  const transforms = readTransforms();
+  if (transforms.length > 0) {
+    config.transforms = transforms;
+  }
+  const validation = readValidation();
+  if (validation) {
+    config.validation = validation;
+  }
+  const filters = readFilters(config.filterableFields);
+  if (filters.length > 0) {
+    config.filters = filters;
+  }
+  const boosts = readBoosts(filters.map(f => f.name), config.filterableFields);
+  if (boosts.length > 0) {
+    config.boosts = boosts;
+  }
+  const relevance = readRelevance(config.filterableFields);
+  if (relevance) {
+    config.relevance = relevance;
+  }
+  const blueGreen = readBlueGreen();
+  if (blueGreen) {
+    config.blueGreen = blueGreen;
+  }
+
+  if (config.name && !/^[A-Za-z0-9_-]+$/.test(config.name)) {
+    issues.push({ path: 'name', message: 'may only contain letters, digits, "-" and "_"' });
+  } else if (config.name?.includes('__')) {
+    // Reserved for blue/green versions such as tmdb__20261019T120000
+    issues.push({ path: 'name', message: 'may not contain "__"' });
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+
+  return config;
+}
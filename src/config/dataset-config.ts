@@ -1,7 +1,24 @@
 /**
  * Dataset configuration definitions
  * Converts C# DatasetConfig.cs to TypeScript
+ *
+ * Datasets are no longer hardcoded: every *.json, *.yaml or *.yml file in the
+ * config directory (default: datasets/) describes one DatasetConfig.
  */
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { ConfigValidationError, validateDatasetConfig } from './config-schema.js';
+
+export { ConfigValidationError } from './config-schema.js';
+export type { ConfigIssue } from './config-schema.js';
+
+/**
+ * Default directory scanned for dataset configuration files
+ */
+export const DEFAULT_CONFIG_DIR = 'datasets';
+
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
 
 /**
  * Search field weight (importance in search results)
@@ -18,6 +35,134 @@ export interface SearchableField {
   weight: number;
 }
 
+/**
+ * Target types for the `coerce` transform
+ */
+export type CoerceType = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * Record formats the loader can read
+ */
+export type InputFormat = 'json' | 'ndjson' | 'csv';
+
+/**
+ * How to read the data file; everything is detected from the file extension when omitted
+ */
+export interface InputOptions {
+  /** json (one array), ndjson (one object per line) or csv */
+  format?: InputFormat;
+  /** 'gzip' for compressed files (detected from a .gz extension) */
+  compression?: 'gzip' | 'none';
+  /** CSV field delimiter (default ",", tab for .tsv files) */
+  delimiter?: string;
+  /** CSV column types; columns without a hint are read as strings */
+  columns?: Record<string, CoerceType>;
+}
+
+/**
+ * One step of a record transform pipeline; each step has exactly one key
+ * Steps run in order on every record before it is analyzed or uploaded.
+ */
+export type TransformStep =
+  /** Rename fields: { oldName: newName } */
+  | { rename: Record<string, string> }
+  /** Remove fields */
+  | { drop: string[] }
+  /** Convert field values: { field: type }; values that cannot be converted become null */
+  | { coerce: Record<string, CoerceType> }
+  /** Turn list-like strings such as "['a', 'b']" or "a, b" into arrays */
+  | { parseArray: string[] }
+  /** Computed fields: { field: expression }, e.g. { decade: "Math.floor(record.year / 10) * 10" } */
+  | { compute: Record<string, string> }
+  /** Custom transform module (path relative to the working directory); see RecordTransform */
+  | { module: string };
+
+/**
+ * A filter definition; created on the server with CreateRangeFilter, CreateValueFilter or CombineFilters
+ */
+export type FilterDef =
+  /** Range filter: min <= field <= max */
+  | { field: string; min: number; max: number }
+  /** Value filter: field equals value */
+  | { field: string; value: string | number | boolean }
+  /** All of the filters (AND) */
+  | { all: FilterRef[] }
+  /** Any of the filters (OR) */
+  | { any: FilterRef[] };
+
+/**
+ * A filter in a combination or boost: the name of a filter defined earlier, or an inline definition
+ */
+export type FilterRef = string | FilterDef;
+
+/**
+ * A filter the loader creates and reports by name
+ */
+export type NamedFilter = FilterDef & { name: string };
+
+export type BoostStrengthName = 'Low' | 'Med' | 'High';
+
+/**
+ * Boost search results matching a filter
+ */
+export interface BoostDef {
+  filter: FilterRef;
+  strength: BoostStrengthName;
+}
+
+/**
+ * A relevant record of a golden query; `rank` also requires it at or above that position
+ */
+export type ExpectedHit = number | { key: number; rank: number };
+
+/**
+ * A query with known relevant results
+ */
+export interface GoldenQuery {
+  query: string;
+  /** Document keys of the relevant records */
+  expected: ExpectedHit[];
+  /** Filter expression applied to the query */
+  filter?: string;
+  /** Run the query with enableBoost */
+  boost?: boolean;
+}
+
+/**
+ * Relevance regression suite run after indexing
+ */
+export interface RelevanceOptions {
+  /** Results considered per query (default 10) */
+  k?: number;
+  /** Fail when the mean precision@k, recall@k or MRR is below these (0-1) */
+  minPrecision?: number;
+  minRecall?: number;
+  minMrr?: number;
+  queries: GoldenQuery[];
+}
+
+/**
+ * Thresholds for the pre-flight data validation run before every load
+ */
+export interface ValidationOptions {
+  /** Fail when a configured field is missing (absent or null) in more than this share of records (default 50) */
+  maxMissingPercent?: number;
+  /** Fail when more than this share of a field's values do not have its main type (default 5) */
+  maxMixedTypePercent?: number;
+  /** Treat warnings as errors */
+  strict?: boolean;
+  /** Skip the validation (it reads the whole data file once more) */
+  skip?: boolean;
+}
+
+/**
+ * Blue/green loads: every load goes into a new versioned dataset that is promoted when it passes
+ */
+export interface BlueGreenOptions {
+  /** Versions kept on the server, including the current one (default 3) */
+  retain?: number;
+}
+
 export interface DatasetConfig {
   name: string;
   filePath: string;
@@ -27,56 +172,119 @@ export interface DatasetConfig {
   facetableFields: string[];
   sortableFields: string[];
   testQuery: string;
+  /** Record field that identifies a record between loads (default "id"); used by incremental sync */
+  keyField?: string;
+  /** Format of the data file, when it is not a plain JSON array */
+  input?: InputOptions;
+  /** Transform pipeline applied to every record on its way to the server; the data file is not changed */
+  transforms?: TransformStep[];
+  /** Pre-flight data validation thresholds */
+  validation?: ValidationOptions;
+  /** Filters created after the fields are configured; fields must be filterable */
+  filters?: NamedFilter[];
+  /** Boosts created from filters */
+  boosts?: BoostDef[];
+  /** Golden queries checked after indexing */
+  relevance?: RelevanceOptions;
+  /** Load blue/green instead of into the dataset itself; `true` in the config file for the defaults */
+  blueGreen?: BlueGreenOptions;
 }
 
 /**
- * Get configuration for a specific dataset
+ * Field setting categories, in the order they are applied
  */
-export function getConfig(datasetName: string): DatasetConfig | null {
-  const lowerName = datasetName.toLowerCase();
+export type FieldCategory = 'searchable' | 'filterable' | 'facetable' | 'sortable' | 'wordIndexing';
+
+export const FIELD_CATEGORIES: FieldCategory[] = ['searchable', 'filterable', 'facetable', 'sortable', 'wordIndexing'];
+
+/**
+ * Field names of one category in the config
+ */
+export function configuredFields(config: DatasetConfig, category: FieldCategory): string[] {
+  switch (category) {
+    case 'searchable': return config.searchableFields.map(f => f.name);
+    case 'filterable': return config.filterableFields;
+    case 'facetable': return config.facetableFields;
+    case 'sortable': return config.sortableFields;
+    case 'wordIndexing': return config.wordIndexingFields;
+  }
+}
+
+/**
+ * Result of scanning a config directory
+ * Invalid files are collected in `errors` so one bad file does not hide the others
+ */
+export interface ConfigDiscovery {
+  configs: DatasetConfig[];
+  errors: ConfigValidationError[];
+}
 
-  switch (lowerName) {
-    case 'tmdb':
-      return {
-        name: 'tmdb',
-        filePath: 'data/tmdb_top10k.json',
-        searchableFields: [
-          { name: 'title', weight: Weight.High },
-          { name: 'original_title', weight: Weight.Med },
-          { name: 'description', weight: Weight.Med },
-          { name: 'actors', weight: Weight.Low }
-        ],
-        wordIndexingFields: ['title'],
-        filterableFields: ['release_year', 'vote_average', 'vote_count_tier', 'genres', 'decade', 'actors', 'language'],
-        facetableFields: ['release_year', 'vote_average', 'vote_count_tier', 'genres', 'decade', 'actors', 'language'],
-        sortableFields: ['popularity', 'vote_average'],
-        testQuery: 'titanic'
-      };
-
-    case 'pokedex':
-      return {
-        name: 'pokedex',
-        filePath: 'data/pokedex.json',
-        searchableFields: [
-          { name: 'name', weight: Weight.High },
-          { name: 'type1', weight: Weight.Med },
-          { name: 'type2', weight: Weight.Low }
-        ],
-        wordIndexingFields: ['name', 'type1', 'type2'],
-        filterableFields: ['speed', 'attack', 'hp', 'type1', 'type2', 'is_legendary'],
-        facetableFields: ['speed', 'attack', 'hp', 'type1', 'type2', 'is_legendary'],
-        sortableFields: ['name', 'speed'],
-        testQuery: 'raic'
-      };
-
-    default:
-      return null;
+/**
+ * Load and validate a single dataset configuration file (JSON or YAML)
+ */
+export function loadConfigFile(filePath: string): DatasetConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigValidationError(filePath, [{ path: '(file)', message: 'file not found' }]);
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  let raw: unknown;
+  try {
+    raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new ConfigValidationError(filePath, [{ path: '(file)', message: `parse error: ${error.message}` }]);
+  }
+
+  return validateDatasetConfig(raw, filePath, path.basename(filePath, ext));
+}
+
+/**
+ * Discover all dataset configurations in a directory
+ */
+export function discoverConfigs(configDir: string = DEFAULT_CONFIG_DIR): ConfigDiscovery {
+  const discovery: ConfigDiscovery = { configs: [], errors: [] };
+  if (!fs.existsSync(configDir)) {
+    return discovery;
   }
+
+  const files = fs.readdirSync(configDir)
+    .filter(f => CONFIG_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+    .sort();
+
+  for (const file of files) {
+    const fullPath = path.join(configDir, file);
+    try {
+      const config = loadConfigFile(fullPath);
+      const existing = discovery.configs.find(c => c.name.toLowerCase() === config.name.toLowerCase());
+      if (existing) {
+        throw new ConfigValidationError(fullPath, [{ path: 'name', message: `dataset "${config.name}" is already defined by another file` }]);
+      }
+      discovery.configs.push(config);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        discovery.errors.push(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return discovery;
+}
+
+/**
+ * Get configuration for a specific dataset
+ */
+export function getConfig(datasetName: string, configDir: string = DEFAULT_CONFIG_DIR): DatasetConfig | null {
+  const lowerName = datasetName.toLowerCase();
+  return discoverConfigs(configDir).configs.find(c => c.name.toLowerCase() === lowerName) ?? null;
 }
 
 /**
  * Get list of all available datasets
  */
-export function getAvailableDatasets(): string[] {
-  return ['tmdb', 'pokedex'];
+export function getAvailableDatasets(configDir: string = DEFAULT_CONFIG_DIR): string[] {
+  return discoverConfigs(configDir).configs.map(c => c.name);
 }
@@ -0,0 +1,254 @@
+/**
+ * Filter expression language
+ * Parses expressions such as `speed:[10.5..50] AND (type1:Fire OR is_legendary:1)` into FilterRef trees
+ *
+ * Grammar (AND binds tighter than OR; keywords are case-insensitive):
+ *   expression := and ( OR and )*
+ *   and        := term ( AND term )*
+ *   term       := '(' expression ')' | field ':' value | field ':' '[' number '..' number ']' | name
+ *
+ * Values are numbers, true/false, bare words or "quoted strings" (always strings). A bare
+ * name without ':' refers to a named filter from the dataset config.
+ */
+import type { FilterDef, FilterRef } from './dataset-config.js';
+
+/**
+ * Thrown for malformed expressions; `position` is the offset (from 0) of the offending character
+ */
+export class FilterSyntaxError extends Error {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'FilterSyntaxError';
+    this.expression = expression;
+    this.position = position;
+  }
+
+  /**
+   * The expression with a caret under the offending character, for console output
+   */
+  excerpt(): string[] {
+    return [this.expression, `${' '.repeat(this.position)}^`];
+  }
+}
+
+// Characters that end a bare word
+const DELIMITERS = new Set([' ', '\t', '\n', '\r', '(', ')', '[', ']', ':', '"']);
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): FilterRef {
+    this.skipSpace();
+    if (this.atEnd()) {
+      this.fail('Empty filter expression');
+    }
+    const result = this.parseOr();
+    this.skipSpace();
+    if (!this.atEnd()) {
+      const word = this.peekWord();
+      this.fail(this.peek() === ')' ? 'Unmatched ")"' : `Expected AND or OR, got "${word || this.peek()}"`);
+    }
+    return result;
+  }
+
+  private parseOr(): FilterRef {
+    const parts = [this.parseAnd()];
+    while (this.keyword('OR')) {
+      parts.push(this.parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : { any: parts };
+  }
+
+  private parseAnd(): FilterRef {
+    const parts = [this.parseTerm()];
+    while (this.keyword('AND')) {
+      parts.push(this.parseTerm());
+    }
+    return parts.length === 1 ? parts[0] : { all: parts };
+  }
+
+  private parseTerm(): FilterRef {
+    this.skipSpace();
+    if (this.atEnd()) {
+      this.fail('Unexpected end of expression; expected a filter');
+    }
+
+    if (this.peek() === '(') {
+      const open = this.pos++;
+      const inner = this.parseOr();
+      this.skipSpace();
+      if (this.peek() !== ')') {
+        this.fail('Missing ")" for this "("', open);
+      }
+      this.pos++;
+      return inner;
+    }
+
+    const fieldStart = this.pos;
+    const field = this.readWord();
+    if (field === '') {
+      this.fail(`Expected a field name, got "${this.peek()}"`);
+    }
+    if (/^(and|or)$/i.test(field)) {
+      this.fail(`Expected a filter before ${field.toUpperCase()}`, fieldStart);
+    }
+
+    this.skipSpace();
+    if (this.peek() !== ':') {
+      // A bare name refers to a named filter
+      return field;
+    }
+    this.pos++;
+    this.skipSpace();
+
+    if (this.peek() === '[') {
+      return this.parseRange(field);
+    }
+    return { field, value: this.parseValue(field) };
+  }
+
+  private parseRange(field: string): FilterDef {
+    const open = this.pos++;
+    const min = this.readNumber('minimum');
+    this.skipSpace();
+    if (!this.text.startsWith('..', this.pos)) {
+      this.fail('Expected ".." between the range bounds');
+    }
+    this.pos += 2;
+    const max = this.readNumber('maximum');
+    this.skipSpace();
+    if (this.peek() !== ']') {
+      this.fail('Missing "]" for this range', open);
+    }
+    this.pos++;
+    if (min > max) {
+      this.fail(`Range minimum ${min} is greater than the maximum ${max}`, open);
+    }
+    return { field, min, max };
+  }
+
+  private parseValue(field: string): string | number | boolean {
+    if (this.peek() === '"') {
+      return this.readQuoted();
+    }
+    const start = this.pos;
+    const word = this.readWord();
+    if (word === '') {
+      this.fail(`Expected a value after "${field}:"`);
+    }
+    if (/^(and|or)$/i.test(word)) {
+      this.fail(`Expected a value after "${field}:"; quote "${word}" to match it literally`, start);
+    }
+    if (NUMBER.test(word)) return Number(word);
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    return word;
+  }
+
+  private readNumber(bound: string): number {
+    this.skipSpace();
+    const start = this.pos;
+    // Stop at ".." so "[10..50]" reads as two numbers
+    const match = /^-?\d+(\.\d+)?/.exec(this.text.slice(this.pos));
+    if (!match) {
+      this.fail(`Expected a number for the range ${bound}, got "${this.peekWord() || this.peek()}"`, start);
+    }
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  private readQuoted(): string {
+    const open = this.pos++;
+    let value = '';
+    while (!this.atEnd()) {
+      const ch = this.text[this.pos++];
+      if (ch === '"') return value;
+      if (ch === '\\' && !this.atEnd()) {
+        value += this.text[this.pos++];
+      } else {
+        value += ch;
+      }
+    }
+    this.fail('Unterminated quoted string', open);
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (!this.atEnd() && !DELIMITERS.has(this.text[this.pos])) {
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  private peekWord(): string {
+    const start = this.pos;
+    const word = this.readWord();
+    this.pos = start;
+    return word;
+  }
+
+  /**
+   * Consume a keyword when it comes next
+   */
+  private keyword(name: string): boolean {
+    this.skipSpace();
+    if (this.peekWord().toUpperCase() === name) {
+      this.pos += name.length;
+      return true;
+    }
+    return false;
+  }
+
+  private skipSpace(): void {
+    while (!this.atEnd() && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private peek(): string {
+    return this.text[this.pos] ?? '';
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private fail(message: string, position: number = this.pos): never {
+    throw new FilterSyntaxError(message, this.text, position);
+  }
+}
+
+/**
+ * Parse a filter expression
+ * Throws FilterSyntaxError when the expression is malformed.
+ */
+export function parseFilterExpression(expression: string): FilterRef {
+  return new Parser(expression).parse();
+}
+
+/**
+ * Field names used by a filter
+ */
+export function filterFields(ref: FilterRef): string[] {
+  if (typeof ref === 'string') return [];
+  if ('all' in ref) return [...new Set(ref.all.flatMap(filterFields))];
+  if ('any' in ref) return [...new Set(ref.any.flatMap(filterFields))];
+  return [ref.field];
+}
+
+/**
+ * Names of the named filters a filter refers to
+ */
+export function filterReferences(ref: FilterRef): string[] {
+  if (typeof ref === 'string') return [ref];
+  if ('all' in ref) return [...new Set(ref.all.flatMap(filterReferences))];
+  if ('any' in ref) return [...new Set(ref.any.flatMap(filterReferences))];
+  return [];
+}
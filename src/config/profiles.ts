@@ -0,0 +1,142 @@
+/**
+ * Named server profiles
+ * profiles.json in the user state directory describes the servers the loader can talk to
+ * (dev, staging, prod, ...), so switching between them is `--env <name>` instead of editing .env.local
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { userStateDir } from '../utils/paths.js';
+
+export const PROFILES_FILE = 'profiles.json';
+
+// Profile names become directory names for the profile's loader state
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * How a profile authenticates: a bearer token, or a login with email and password
+ */
+export type AuthMethod = 'token' | 'login';
+
+/**
+ * TLS settings for a server; file paths are read when connecting
+ */
+export interface TlsOptions {
+  /** PEM bundle of additional CAs to trust, e.g. a private company CA */
+  caFile?: string;
+  /** PEM client certificate and its private key, for servers that require mutual TLS */
+  certFile?: string;
+  keyFile?: string;
+  /** Skip certificate verification altogether */
+  insecure?: boolean;
+}
+
+export interface Profile {
+  /** IndxCloudApi base URI */
+  uri: string;
+  auth: AuthMethod;
+  bearerToken?: string;
+  /** Environment variable holding the bearer token, so it is not stored in the file */
+  bearerTokenEnv?: string;
+  userEmail?: string;
+  userPassword?: string;
+  /** Environment variable holding the password, so it is not stored in the file */
+  userPasswordEnv?: string;
+  tls?: TlsOptions;
+  /** Datasets the load menu offers with this profile (default: every config) */
+  datasets?: string[];
+}
+
+export interface ProfilesFile {
+  /** Profile used when neither --env nor INDX_ENV names one */
+  default?: string;
+  profiles: Record<string, Profile>;
+}
+
+/**
+ * Location of the profiles file (INDX_HOME moves it along with the rest of the user state)
+ */
+export function profilesPath(): string {
+  return path.join(userStateDir(), PROFILES_FILE);
+}
+
+/**
+ * Check a profile name before it is stored or looked up
+ */
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name "${name}": use letters, digits, "-" and "_"`);
+  }
+}
+
+/**
+ * Read the profiles file; a missing file means no profiles
+ */
+export function readProfiles(file: string = profilesPath()): ProfilesFile {
+  if (!fs.existsSync(file)) {
+    return { profiles: {} };
+  }
+
+  let parsed: ProfilesFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as ProfilesFile;
+  } catch (error: any) {
+    throw new Error(`Invalid profiles file ${file}: ${error.message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || typeof parsed.profiles !== 'object' || parsed.profiles === null) {
+    throw new Error(`Invalid profiles file ${file}: expected an object with "profiles"`);
+  }
+  for (const [name, profile] of Object.entries(parsed.profiles)) {
+    if (typeof profile?.uri !== 'string' || (profile.auth !== 'token' && profile.auth !== 'login')) {
+      throw new Error(`Invalid profiles file ${file}: profile "${name}" needs "uri" and "auth" ("token" or "login")`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Save the profiles file, readable by the current user only since it may hold credentials
+ */
+export function writeProfiles(profiles: ProfilesFile, file: string = profilesPath()): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(profiles, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  // mode only applies to new files; a leftover temporary file keeps its own
+  fs.chmodSync(`${file}.tmp`, 0o600);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Look up a profile by name
+ * Throws when there is no such profile, listing the ones there are.
+ */
+export function getProfile(name: string, profiles: ProfilesFile = readProfiles()): Profile {
+  const profile = profiles.profiles[name];
+  if (!profile) {
+    const names = Object.keys(profiles.profiles);
+    throw new Error(`Unknown profile "${name}" (${names.length > 0 ? `profiles: ${names.join(', ')}` : `no profiles in ${profilesPath()}`})`);
+  }
+  return profile;
+}
+
+/**
+ * The profile in use: `explicit` (from --env), else INDX_ENV, else the default profile
+ * Returns null when none is set, which means the server in .env.local.
+ */
+export function activeProfile(explicit?: string, profiles: ProfilesFile = readProfiles()): { name: string; profile: Profile } | null {
+  const name = explicit || process.env.INDX_ENV || profiles.default;
+  return name ? { name, profile: getProfile(name, profiles) } : null;
+}
+
+/**
+ * Whether --env names a dotenv file instead of a profile
+ * A profile with the same name as an existing file wins.
+ */
+export function isEnvFile(env: string | undefined, profiles: ProfilesFile = readProfiles()): env is string {
+  return Boolean(env) && !profiles.profiles[env as string] && fs.existsSync(env as string);
+}
+
+/**
+ * The profile in use for a --env value: null when it names a dotenv file, else activeProfile()
+ */
+export function profileForEnv(env?: string, profiles: ProfilesFile = readProfiles()): { name: string; profile: Profile } | null {
+  return isEnvFile(env, profiles) ? null : activeProfile(env, profiles);
+}
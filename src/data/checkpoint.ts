@@ -0,0 +1,91 @@
+/**
+ * Upload checkpoints
+ * Records which batches of a batched upload the server accepted, so an interrupted
+ * upload can resume without sending them again
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { stateDir as defaultStateDir } from '../utils/paths.js';
+
+export interface UploadCheckpoint {
+  dataset: string;
+  filePath: string;
+  /** Size and modification time of the data file; a changed file cannot be resumed */
+  fileSize: number;
+  fileModifiedMs: number;
+  batchSize: number;
+  /** Indexes (from 0) of batches the server accepted */
+  completedBatches: number[];
+  recordsSent: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Location of the checkpoint for a dataset
+ */
+export function checkpointPath(dataset: string, stateDir: string = defaultStateDir()): string {
+  return path.join(stateDir, 'checkpoints', `${dataset}.json`);
+}
+
+/**
+ * Read the checkpoint of an interrupted upload, or null when there is none
+ */
+export function readCheckpoint(dataset: string, stateDir: string = defaultStateDir()): UploadCheckpoint | null {
+  const file = checkpointPath(dataset, stateDir);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as UploadCheckpoint;
+}
+
+/**
+ * Save a checkpoint; written to a temporary file first so a crash never leaves a truncated one
+ */
+export function writeCheckpoint(checkpoint: UploadCheckpoint, stateDir: string = defaultStateDir()): void {
+  const file = checkpointPath(checkpoint.dataset, stateDir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  checkpoint.updatedAt = new Date().toISOString();
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint, null, 2), 'utf-8');
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+export function deleteCheckpoint(dataset: string, stateDir: string = defaultStateDir()): void {
+  fs.rmSync(checkpointPath(dataset, stateDir), { force: true });
+}
+
+/**
+ * Start a checkpoint for uploading a data file
+ */
+export function createCheckpoint(dataset: string, filePath: string, batchSize: number): UploadCheckpoint {
+  const stats = fs.statSync(filePath);
+  const now = new Date().toISOString();
+  return {
+    dataset,
+    filePath,
+    fileSize: stats.size,
+    fileModifiedMs: stats.mtimeMs,
+    batchSize,
+    completedBatches: [],
+    recordsSent: 0,
+    startedAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Why a checkpoint cannot be used to resume uploading this file, or null when it can
+ */
+export function checkpointMismatch(checkpoint: UploadCheckpoint, filePath: string, batchSize: number): string | null {
+  if (path.resolve(checkpoint.filePath) !== path.resolve(filePath)) {
+    return `it was made for ${checkpoint.filePath}`;
+  }
+  if (checkpoint.batchSize !== batchSize) {
+    return `it used batches of ${checkpoint.batchSize} records`;
+  }
+  const stats = fs.statSync(filePath);
+  if (stats.size !== checkpoint.fileSize || stats.mtimeMs !== checkpoint.fileModifiedMs) {
+    return `${filePath} changed since the upload started`;
+  }
+  return null;
+}
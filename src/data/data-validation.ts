@@ -0,0 +1,214 @@
+/**
+ * Pre-flight data validation
+ * Profiles the records of a data file and checks them against the fields a DatasetConfig
+ * configures, so misconfigured fields show up before anything is uploaded
+ */
+import { DatasetConfig, FIELD_CATEGORIES, FieldCategory, configuredFields } from '../config/dataset-config.js';
+import { DISTINCT_LIMIT, FieldProfile, FieldProfiler, FieldType } from './field-profiler.js';
+import { DataRecord } from './record-reader.js';
+
+export const DEFAULT_MAX_MISSING_PERCENT = 50;
+export const DEFAULT_MAX_MIXED_TYPE_PERCENT = 5;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface DataIssue {
+  severity: IssueSeverity;
+  /** Field the issue is about; undefined for problems with the file as a whole */
+  field?: string;
+  message: string;
+}
+
+export interface FieldReport {
+  field: string;
+  /** Categories the config uses the field in */
+  categories: FieldCategory[];
+  /** Undefined when no record has the field */
+  profile?: FieldProfile;
+  /** Share of records where the field is absent or null */
+  missingPercent: number;
+  /** Share of present values that do not have the field's main type */
+  mixedTypePercent: number;
+}
+
+export interface DataValidationReport {
+  dataset: string;
+  recordCount: number;
+  /** One entry per configured field, in config order */
+  fields: FieldReport[];
+  issues: DataIssue[];
+  errors: number;
+  warnings: number;
+  /** False when errors were found, or warnings in strict mode */
+  passed: boolean;
+}
+
+// Integers and decimals are one kind of value as far as the server is concerned
+function typeFamily(type: FieldType): FieldType {
+  return type === 'integer' ? 'number' : type;
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+/**
+ * Type of a profiled field as shown in reports, e.g. "string[]" for an array of strings
+ */
+export function typeLabel(profile: FieldProfile): string {
+  return profile.type === 'array' && profile.elementType ? `${profile.elementType}[]` : profile.type;
+}
+
+/**
+ * Share of present values whose type differs from the field's main type
+ */
+function mixedTypePercent(profile: FieldProfile): number {
+  const main = typeFamily(profile.type);
+  let matching = 0;
+  for (const [type, count] of Object.entries(profile.typeCounts) as [FieldType, number][]) {
+    if (type !== 'null' && typeFamily(type) === main) {
+      matching += count;
+    }
+  }
+  return percent(profile.presentCount - matching, profile.presentCount);
+}
+
+/**
+ * Check that a field's values suit the categories it is configured in
+ */
+function checkShape(report: FieldReport, profile: FieldProfile, issue: (severity: IssueSeverity, message: string) => void): void {
+  const type = profile.type;
+  const valueType = type === 'array' ? profile.elementType : type;
+  const has = (category: FieldCategory) => report.categories.includes(category);
+
+  if (valueType === 'object') {
+    issue('error', `values are ${typeLabel(profile)}; nested objects cannot be searched, filtered or sorted`);
+    return;
+  }
+  if ((has('searchable') || has('wordIndexing')) && valueType !== 'string') {
+    issue('warning', `is searchable but its values are ${typeLabel(profile)}, not text`);
+  }
+  if (has('sortable') && type === 'array') {
+    issue('error', `is sortable but its values are ${typeLabel(profile)}; sorting needs a single value per record`);
+  }
+  if (has('facetable') && profile.distinctCapped) {
+    issue('warning', `is facetable but has more than ${DISTINCT_LIMIT} distinct values`);
+  }
+}
+
+/**
+ * Check field profiles against the config and the thresholds in `config.validation`
+ */
+export function validateProfiles(config: DatasetConfig, profiles: FieldProfile[], recordCount: number, strict?: boolean): DataValidationReport {
+  const maxMissing = config.validation?.maxMissingPercent ?? DEFAULT_MAX_MISSING_PERCENT;
+  const maxMixed = config.validation?.maxMixedTypePercent ?? DEFAULT_MAX_MIXED_TYPE_PERCENT;
+  const issues: DataIssue[] = [];
+  const fields: FieldReport[] = [];
+
+  if (recordCount === 0) {
+    issues.push({ severity: 'error', message: 'The data file contains no records' });
+  }
+
+  // Fields in config order, each listed once with every category it is used in
+  for (const category of FIELD_CATEGORIES) {
+    for (const field of configuredFields(config, category)) {
+      const existing = fields.find(f => f.field === field);
+      if (existing) {
+        existing.categories.push(category);
+        continue;
+      }
+      const profile = profiles.find(p => p.name === field && p.presentCount > 0);
+      fields.push({
+        field,
+        categories: [category],
+        profile,
+        missingPercent: percent(recordCount - (profile?.presentCount ?? 0), recordCount),
+        mixedTypePercent: profile ? mixedTypePercent(profile) : 0
+      });
+    }
+  }
+
+  for (const report of fields) {
+    const issue = (severity: IssueSeverity, message: string) => issues.push({ severity, field: report.field, message });
+    if (recordCount === 0) continue;
+
+    if (!report.profile) {
+      issue('error', 'not found in any record');
+      continue;
+    }
+
+    if (report.missingPercent > maxMissing) {
+      issue('error', `missing in ${report.missingPercent.toFixed(1)}% of records (limit ${maxMissing}%)`);
+    } else if (report.missingPercent > 0 && !report.categories.every(c => c === 'searchable' || c === 'wordIndexing')) {
+      issue('warning', `missing in ${report.missingPercent.toFixed(1)}% of records`);
+    }
+
+    if (report.mixedTypePercent > maxMixed) {
+      issue('error', `${report.mixedTypePercent.toFixed(1)}% of values are not ${typeFamily(report.profile.type)} (limit ${maxMixed}%)`);
+    } else if (report.mixedTypePercent > 0) {
+      issue('warning', `${report.mixedTypePercent.toFixed(1)}% of values are not ${typeFamily(report.profile.type)}`);
+    }
+
+    checkShape(report, report.profile, issue);
+  }
+
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  return {
+    dataset: config.name,
+    recordCount,
+    fields,
+    issues,
+    errors,
+    warnings,
+    passed: errors === 0 && !((strict ?? config.validation?.strict) && warnings > 0)
+  };
+}
+
+/**
+ * Profile every record and check the configured fields
+ * Pass the records as they are sent to the server (see readDatasetRecords), so transforms are taken into account.
+ */
+export async function validateRecords(
+  config: DatasetConfig,
+  records: AsyncIterable<DataRecord>,
+  options: { strict?: boolean; onProgress?: (count: number) => void } = {}
+): Promise<DataValidationReport> {
+  const profiler = new FieldProfiler();
+  for await (const record of records) {
+    profiler.add(record);
+    if (options.onProgress && profiler.recordCount % 1000 === 0) {
+      options.onProgress(profiler.recordCount);
+    }
+  }
+  return validateProfiles(config, profiler.getProfiles(), profiler.recordCount, options.strict);
+}
+
+/**
+ * Format one field of a report, e.g. "year  integer  missing 0.0%  distinct 94  range 1921..2023"
+ */
+export function describeFieldReport(report: FieldReport): string {
+  const p = report.profile;
+  if (!p) {
+    return `${report.field.padEnd(24)}  ${'-'.padEnd(9)}  missing 100.0%`;
+  }
+  const parts = [
+    report.field.padEnd(24),
+    typeLabel(p).padEnd(9),
+    `missing ${report.missingPercent.toFixed(1).padStart(5)}%`,
+    `distinct ${p.distinctCapped ? `${p.distinctCount}+` : p.distinctCount}`
+  ];
+  if (p.min !== undefined && p.max !== undefined) {
+    parts.push(`range ${p.min}..${p.max}`);
+  } else if (p.minLength !== undefined && p.maxLength !== undefined) {
+    parts.push(`length ${p.minLength}..${p.maxLength}`);
+  }
+  return parts.join('  ');
+}
+
+/**
+ * Format an issue, e.g. "vote_count_tier: missing in 48.2% of records (limit 20%)"
+ */
+export function describeDataIssue(issue: DataIssue): string {
+  return issue.field ? `${issue.field}: ${issue.message}` : issue.message;
+}
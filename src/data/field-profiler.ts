@@ -0,0 +1,184 @@
+/**
+ * Field profiling
+ * Collects per-field statistics (type, cardinality, string length, numeric range) while streaming records
+ */
+import type { DataRecord } from './record-reader.js';
+
+export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * Distinct values are tracked exactly up to this many; beyond it the count is a lower bound
+ */
+export const DISTINCT_LIMIT = 1000;
+
+export interface FieldProfile {
+  name: string;
+  /** Most common non-null type */
+  type: FieldType;
+  /** Number of records seen per type (arrays count once, by the array itself) */
+  typeCounts: Partial<Record<FieldType, number>>;
+  /** Element type for arrays, when elements share one */
+  elementType?: FieldType;
+  /** Records in which the field is present and not null */
+  presentCount: number;
+  totalRecords: number;
+  distinctCount: number;
+  /** True when distinctCount hit DISTINCT_LIMIT and is only a lower bound */
+  distinctCapped: boolean;
+  minLength?: number;
+  maxLength?: number;
+  avgLength?: number;
+  min?: number;
+  max?: number;
+  /** A few example values, for display */
+  samples: unknown[];
+}
+
+interface FieldAccumulator {
+  typeCounts: Partial<Record<FieldType, number>>;
+  elementTypes: Partial<Record<FieldType, number>>;
+  presentCount: number;
+  distinct: Set<string>;
+  distinctCapped: boolean;
+  lengthSum: number;
+  lengthCount: number;
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  samples: unknown[];
+}
+
+function typeOf(value: unknown): FieldType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'object';
+}
+
+function dominant(counts: Partial<Record<FieldType, number>>): FieldType | undefined {
+  // A field mixing integers and decimals is numeric
+  const merged = { ...counts };
+  if (merged.integer && merged.number) {
+    merged.number += merged.integer;
+    delete merged.integer;
+  }
+
+  let best: FieldType | undefined;
+  let bestCount = 0;
+  for (const [type, count] of Object.entries(merged) as [FieldType, number][]) {
+    if (type !== 'null' && count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Accumulates field statistics one record at a time
+ */
+export class FieldProfiler {
+  private fields = new Map<string, FieldAccumulator>();
+  private records = 0;
+
+  get recordCount(): number {
+    return this.records;
+  }
+
+  add(record: DataRecord): void {
+    this.records++;
+    for (const [name, value] of Object.entries(record)) {
+      let acc = this.fields.get(name);
+      if (!acc) {
+        acc = {
+          typeCounts: {},
+          elementTypes: {},
+          presentCount: 0,
+          distinct: new Set(),
+          distinctCapped: false,
+          lengthSum: 0,
+          lengthCount: 0,
+          samples: []
+        };
+        this.fields.set(name, acc);
+      }
+
+      const type = typeOf(value);
+      acc.typeCounts[type] = (acc.typeCounts[type] ?? 0) + 1;
+      if (type === 'null') continue;
+
+      acc.presentCount++;
+      if (acc.samples.length < 3) acc.samples.push(value);
+
+      // Arrays contribute their elements, so ['Drama', 'Crime'] counts towards two distinct values
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        const itemType = typeOf(item);
+        if (Array.isArray(value)) {
+          acc.elementTypes[itemType] = (acc.elementTypes[itemType] ?? 0) + 1;
+        }
+        this.observe(acc, item, itemType);
+      }
+    }
+  }
+
+  private observe(acc: FieldAccumulator, value: unknown, type: FieldType): void {
+    if (type === 'null') return;
+
+    if (!acc.distinctCapped) {
+      acc.distinct.add(type === 'object' ? JSON.stringify(value) : `${type}:${value}`);
+      if (acc.distinct.size >= DISTINCT_LIMIT) acc.distinctCapped = true;
+    }
+
+    if (type === 'string') {
+      const length = (value as string).length;
+      acc.lengthSum += length;
+      acc.lengthCount++;
+      acc.minLength = acc.minLength === undefined ? length : Math.min(acc.minLength, length);
+      acc.maxLength = acc.maxLength === undefined ? length : Math.max(acc.maxLength, length);
+    } else if (type === 'integer' || type === 'number') {
+      const num = value as number;
+      acc.min = acc.min === undefined ? num : Math.min(acc.min, num);
+      acc.max = acc.max === undefined ? num : Math.max(acc.max, num);
+    }
+  }
+
+  /**
+   * Get the profiles of all fields seen so far, in first-seen order
+   */
+  getProfiles(): FieldProfile[] {
+    return [...this.fields.entries()].map(([name, acc]) => ({
+      name,
+      type: dominant(acc.typeCounts) ?? 'null',
+      typeCounts: acc.typeCounts,
+      elementType: dominant(acc.elementTypes),
+      presentCount: acc.presentCount,
+      totalRecords: this.records,
+      distinctCount: acc.distinct.size,
+      distinctCapped: acc.distinctCapped,
+      minLength: acc.minLength,
+      maxLength: acc.maxLength,
+      avgLength: acc.lengthCount > 0 ? acc.lengthSum / acc.lengthCount : undefined,
+      min: acc.min,
+      max: acc.max,
+      samples: acc.samples
+    }));
+  }
+}
+
+/**
+ * Profile every record produced by an async iterable
+ */
+export async function profileRecords(records: AsyncIterable<DataRecord>, onProgress?: (count: number) => void): Promise<FieldProfile[]> {
+  const profiler = new FieldProfiler();
+  for await (const record of records) {
+    profiler.add(record);
+    if (onProgress && profiler.recordCount % 1000 === 0) {
+      onProgress(profiler.recordCount);
+    }
+  }
+  return profiler.getProfiles();
+}
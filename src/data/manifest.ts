@@ -0,0 +1,153 @@
+/**
+ * Load manifests
+ * Records the key and content hash of every record sent to the server, so the next
+ * load can upload only what changed
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { stateDir as defaultStateDir } from '../utils/paths.js';
+import { DataRecord } from './record-reader.js';
+
+export const DEFAULT_KEY_FIELD = 'id';
+
+export interface Manifest {
+  dataset: string;
+  keyField: string;
+  /** ISO timestamp of the load that produced the manifest */
+  updatedAt: string;
+  /** Record key -> content hash */
+  records: Record<string, string>;
+}
+
+/**
+ * Location of the manifest for a dataset
+ */
+export function manifestPath(dataset: string, stateDir: string = defaultStateDir()): string {
+  return path.join(stateDir, 'manifests', `${dataset}.json`);
+}
+
+/**
+ * Read the manifest of the previous load, or null when there is none
+ */
+export function readManifest(dataset: string, stateDir: string = defaultStateDir()): Manifest | null {
+  const file = manifestPath(dataset, stateDir);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as Manifest;
+}
+
+export function writeManifest(manifest: Manifest, stateDir: string = defaultStateDir()): void {
+  const file = manifestPath(manifest.dataset, stateDir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest), 'utf-8');
+}
+
+export function deleteManifest(dataset: string, stateDir: string = defaultStateDir()): void {
+  fs.rmSync(manifestPath(dataset, stateDir), { force: true });
+}
+
+/**
+ * Content hash of a record
+ */
+export function hashRecord(record: DataRecord): string {
+  return crypto.createHash('sha1').update(JSON.stringify(record)).digest('hex');
+}
+
+/**
+ * Key of a record, as a string; throws when the record has no usable key
+ */
+export function recordKey(record: DataRecord, keyField: string, index: number): string {
+  const value = record[keyField];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`Record ${index} has no "${keyField}" key (set keyField in the dataset config)`);
+  }
+  return String(value);
+}
+
+/**
+ * Build a manifest for the records sent to the server
+ * Throws when a key is not a document key, since incremental sync could not use the manifest.
+ */
+export async function buildManifest(dataset: string, records: AsyncIterable<DataRecord>, keyField: string = DEFAULT_KEY_FIELD): Promise<Manifest> {
+  const hashes: Record<string, string> = {};
+  let index = 0;
+  for await (const record of records) {
+    const key = recordKey(record, keyField, index++);
+    documentKey(key, keyField);
+    hashes[key] = hashRecord(record);
+  }
+  return { dataset, keyField, updatedAt: new Date().toISOString(), records: hashes };
+}
+
+/**
+ * Document key a record is stored under on the server, from its key as a string
+ * Incremental sync deletes records by document key, so it needs `keyField` to hold that key;
+ * throws for keys that cannot be one (anything but a non-negative integer).
+ */
+export function documentKey(key: string, keyField: string): number {
+  const value = Number(key);
+  if (!/^\d+$/.test(key) || !Number.isSafeInteger(value)) {
+    throw new Error(
+      `"${key}" is not a document key: incremental loads need ${keyField} to hold the numeric document key ` +
+      'the server stores each record under (run a full load instead)'
+    );
+  }
+  return value;
+}
+
+export interface RecordDiff {
+  /** Manifest of the new data */
+  manifest: Manifest;
+  /** New and changed records, to upload */
+  changed: DataRecord[];
+  /** Document keys of records no longer in the data, to delete */
+  removed: number[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  /** Keys found more than once; the last record wins */
+  duplicates: string[];
+}
+
+/**
+ * Compare records with the manifest of the previous load
+ * Throws before anything is compared further when a key is not a document key (see documentKey).
+ */
+export async function diffRecords(previous: Manifest, records: AsyncIterable<DataRecord>, keyField: string = DEFAULT_KEY_FIELD): Promise<RecordDiff> {
+  const diff: RecordDiff = {
+    manifest: { dataset: previous.dataset, keyField, updatedAt: new Date().toISOString(), records: {} },
+    changed: [],
+    removed: [],
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    duplicates: []
+  };
+  const current = diff.manifest.records;
+
+  let index = 0;
+  for await (const record of records) {
+    const key = recordKey(record, keyField, index++);
+    documentKey(key, keyField);
+    const hash = hashRecord(record);
+    if (key in current) {
+      diff.duplicates.push(key);
+    }
+    current[key] = hash;
+
+    const previousHash = previous.records[key];
+    if (previousHash === undefined) {
+      diff.added++;
+      diff.changed.push(record);
+    } else if (previousHash !== hash) {
+      diff.updated++;
+      diff.changed.push(record);
+    } else {
+      diff.unchanged++;
+    }
+  }
+  diff.removed = Object.keys(previous.records).filter(key => !(key in current)).map(key => documentKey(key, keyField));
+  return diff;
+}
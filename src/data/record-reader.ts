@@ -0,0 +1,331 @@
+/**
+ * Streaming record reader
+ * Yields the records of a data file one by one without loading the whole file.
+ * Reads JSON arrays, NDJSON and CSV, optionally gzip-compressed.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { InputFormat, InputOptions } from '../config/dataset-config.js';
+import { coerceValue } from './values.js';
+
+export type DataRecord = Record<string, unknown>;
+
+/**
+ * Incremental splitter for a JSON array
+ * Feed it text chunks; it returns the source text of every complete top-level element
+ */
+export class JsonArraySplitter {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+  private current = '';
+  private position = 0;
+
+  push(chunk: string): string[] {
+    const elements: string[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+      this.position++;
+
+      if (this.finished) {
+        if (!/\s/.test(ch)) {
+          throw new SyntaxError(`Unexpected content after end of JSON array at position ${this.position}`);
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        if (ch === '[') {
+          this.started = true;
+        } else if (!/\s/.test(ch) && ch !== '\uFEFF') {
+          throw new SyntaxError(`Expected a JSON array, found "${ch}" at position ${this.position}`);
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        this.current += ch;
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (this.depth === 0 && (ch === ',' || ch === ']')) {
+        const text = this.current.trim();
+        if (text !== '') {
+          elements.push(text);
+        } else if (ch === ',') {
+          throw new SyntaxError(`Unexpected "," at position ${this.position}`);
+        }
+        this.current = '';
+        if (ch === ']') {
+          this.finished = true;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        this.depth--;
+      }
+      this.current += ch;
+    }
+
+    return elements;
+  }
+
+  end(): void {
+    if (!this.finished) {
+      throw new SyntaxError('Unexpected end of file: JSON array is not closed');
+    }
+  }
+}
+
+/**
+ * Incremental CSV parser (RFC 4180: quoted fields, "" escapes, line breaks inside quotes)
+ * Feed it text chunks; it returns every complete row
+ */
+export class CsvSplitter {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  /** A quote was seen inside a quoted field; the next character decides whether it was an escape */
+  private quotePending = false;
+  private fieldQuoted = false;
+
+  constructor(private readonly delimiter: string) {}
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (ch === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (ch === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"' && this.field === '' && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+      } else if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === '\n') {
+        this.endField();
+        this.endRow(rows);
+      } else if (ch !== '\r') {
+        this.field += ch;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): string[][] {
+    if (this.inQuotes && !this.quotePending) {
+      throw new SyntaxError('Unexpected end of file: quoted CSV field is not closed');
+    }
+    const rows: string[][] = [];
+    if (this.field !== '' || this.fieldQuoted || this.row.length > 0) {
+      this.endField();
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+    this.inQuotes = false;
+    this.quotePending = false;
+  }
+
+  private endRow(rows: string[][]): void {
+    // Blank lines are skipped
+    if (!(this.row.length === 1 && this.row[0] === '')) {
+      rows.push(this.row);
+    }
+    this.row = [];
+  }
+}
+
+/**
+ * Input settings with everything not declared in the config detected from the file name
+ */
+export interface ResolvedInput {
+  format: InputFormat;
+  compression: 'gzip' | 'none';
+  delimiter: string;
+  columns: InputOptions['columns'];
+}
+
+/**
+ * Work out how to read a data file: declared options win, the rest comes from the extension
+ * (data.json.gz, export.ndjson, export.jsonl, table.csv, table.tsv)
+ */
+export function resolveInput(filePath: string, input: InputOptions = {}): ResolvedInput {
+  let name = filePath.toLowerCase();
+  const gzipped = name.endsWith('.gz');
+  if (gzipped) {
+    name = name.slice(0, -3);
+  }
+
+  const ext = path.extname(name);
+  const detected: InputFormat = ext === '.ndjson' || ext === '.jsonl' ? 'ndjson' : ext === '.csv' || ext === '.tsv' ? 'csv' : 'json';
+
+  return {
+    format: input.format ?? detected,
+    compression: input.compression ?? (gzipped ? 'gzip' : 'none'),
+    delimiter: input.delimiter ?? (ext === '.tsv' ? '\t' : ','),
+    columns: input.columns
+  };
+}
+
+/**
+ * Whether the file can be sent to the server as it is (an uncompressed JSON array)
+ */
+export function isPlainJson(filePath: string, input?: InputOptions): boolean {
+  const resolved = resolveInput(filePath, input);
+  return resolved.format === 'json' && resolved.compression === 'none';
+}
+
+/**
+ * Open a data file as a text stream, decompressing when needed
+ */
+function openText(filePath: string, compression: 'gzip' | 'none'): Readable {
+  const file = fs.createReadStream(filePath);
+  if (compression === 'none') {
+    return file.setEncoding('utf-8');
+  }
+  const gunzip = zlib.createGunzip();
+  file.on('error', error => gunzip.destroy(error));
+  return file.pipe(gunzip).setEncoding('utf-8');
+}
+
+function toRecord(value: unknown, where: string): DataRecord {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SyntaxError(`${where} is not a JSON object`);
+  }
+  return value as DataRecord;
+}
+
+async function* readJsonArray(text: Readable, filePath: string): AsyncGenerator<DataRecord> {
+  const splitter = new JsonArraySplitter();
+  let index = 0;
+
+  for await (const chunk of text) {
+    for (const element of splitter.push(chunk as string)) {
+      yield toRecord(JSON.parse(element), `Record ${index++} in ${filePath}`);
+    }
+  }
+
+  splitter.end();
+}
+
+async function* readNdjson(text: Readable, filePath: string): AsyncGenerator<DataRecord> {
+  const lines = readline.createInterface({ input: text, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    const trimmed = lineNumber === 1 ? line.replace(/^\uFEFF/, '').trim() : line.trim();
+    if (trimmed === '') continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch (error: any) {
+      throw new SyntaxError(`Line ${lineNumber} in ${filePath}: ${error.message}`);
+    }
+    yield toRecord(value, `Line ${lineNumber} in ${filePath}`);
+  }
+}
+
+async function* readCsv(text: Readable, filePath: string, input: ResolvedInput): AsyncGenerator<DataRecord> {
+  const splitter = new CsvSplitter(input.delimiter);
+  const columns = input.columns ?? {};
+  let header: string[] | null = null;
+  let rowNumber = 0;
+
+  const toCsvRecord = (row: string[]): DataRecord => {
+    rowNumber++;
+    if (row.length !== header!.length) {
+      throw new SyntaxError(`Row ${rowNumber} in ${filePath} has ${row.length} columns, expected ${header!.length}`);
+    }
+    const record: DataRecord = {};
+    header!.forEach((name, idx) => {
+      record[name] = columns[name] ? coerceValue(row[idx], columns[name]) : row[idx];
+    });
+    return record;
+  };
+
+  const handle = function* (rows: string[][]): Generator<DataRecord> {
+    for (const row of rows) {
+      if (header === null) {
+        header = row.map((name, idx) => (idx === 0 ? name.replace(/^\uFEFF/, '') : name).trim());
+        continue;
+      }
+      yield toCsvRecord(row);
+    }
+  };
+
+  for await (const chunk of text) {
+    yield* handle(splitter.push(chunk as string));
+  }
+  yield* handle(splitter.end());
+}
+
+/**
+ * Read records from a data file in any supported format
+ */
+export async function* readRecords(filePath: string, input?: InputOptions): AsyncGenerator<DataRecord> {
+  const resolved = resolveInput(filePath, input);
+  const text = openText(filePath, resolved.compression);
+
+  switch (resolved.format) {
+    case 'ndjson':
+      yield* readNdjson(text, filePath);
+      break;
+    case 'csv':
+      yield* readCsv(text, filePath, resolved);
+      break;
+    default:
+      yield* readJsonArray(text, filePath);
+  }
+}
+
+/**
+ * Read records from a file containing a JSON array of objects
+ */
+export async function* readJsonRecords(filePath: string): AsyncGenerator<DataRecord> {
+  yield* readJsonArray(openText(filePath, 'none'), filePath);
+}
@@ -0,0 +1,137 @@
+/**
+ * Release pointers for blue/green loads
+ * A blue/green load goes into a versioned dataset such as tmdb__20261019T120000; the pointer
+ * file records which version is current, so commands can resolve "tmdb" to it
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { stateDir as defaultStateDir } from '../utils/paths.js';
+
+export const DEFAULT_RETAIN = 3;
+
+// Separates the dataset name from the version timestamp
+const VERSION_SEPARATOR = '__';
+
+export interface ReleaseVersion {
+  /** Dataset name on the server */
+  name: string;
+  /** ISO timestamp of the promotion */
+  promotedAt: string;
+  recordCount: number;
+  /** Set when a rollback switched away from this version; rollbacks skip it */
+  rolledBack?: boolean;
+}
+
+export interface ReleasePointer {
+  dataset: string;
+  /** Version that serves the dataset */
+  current: string;
+  /** Promoted versions still on the server, oldest first */
+  versions: ReleaseVersion[];
+  updatedAt: string;
+}
+
+/**
+ * Versioned dataset name for a load started at `date`, e.g. tmdb__20261019T120000 (UTC)
+ */
+export function versionedName(dataset: string, date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+  return `${dataset}${VERSION_SEPARATOR}${stamp}`;
+}
+
+/**
+ * Dataset a versioned name belongs to, or null for names that are not versions
+ */
+export function versionOf(name: string): string | null {
+  const match = /^(.+)__\d{8}T\d{6}$/.exec(name);
+  return match ? match[1] : null;
+}
+
+/**
+ * Location of the pointer file for a dataset
+ */
+export function releasePath(dataset: string, stateDir: string = defaultStateDir()): string {
+  return path.join(stateDir, 'releases', `${dataset}.json`);
+}
+
+/**
+ * Read the release pointer of a dataset, or null when it was never loaded blue/green
+ */
+export function readReleases(dataset: string, stateDir: string = defaultStateDir()): ReleasePointer | null {
+  const file = releasePath(dataset, stateDir);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as ReleasePointer;
+}
+
+/**
+ * Save a pointer; written to a temporary file first so the current version is never lost halfway
+ */
+export function writeReleases(pointer: ReleasePointer, stateDir: string = defaultStateDir()): void {
+  const file = releasePath(pointer.dataset, stateDir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  pointer.updatedAt = new Date().toISOString();
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(pointer, null, 2), 'utf-8');
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+export function deleteReleases(dataset: string, stateDir: string = defaultStateDir()): void {
+  fs.rmSync(releasePath(dataset, stateDir), { force: true });
+}
+
+/**
+ * Server-side name of a dataset: its current version when loaded blue/green, otherwise the name itself
+ */
+export function resolveDatasetName(dataset: string, stateDir: string = defaultStateDir()): string {
+  return readReleases(dataset, stateDir)?.current ?? dataset;
+}
+
+/**
+ * Make a new version current
+ * Returns the updated pointer and the versions beyond `retain` that should be deleted from
+ * the server; the new version is never among them. Rolled-back versions go first, then the oldest;
+ * the version that was current before keeps its place for a rollback unless `retain` is 1.
+ */
+export function promoteVersion(
+  pointer: ReleasePointer | null,
+  dataset: string,
+  version: ReleaseVersion,
+  retain: number = DEFAULT_RETAIN
+): { pointer: ReleasePointer; expired: string[] } {
+  const older = (pointer?.versions ?? []).filter(v => v.name !== version.name);
+  const previous = older.filter(v => v.name === pointer?.current);
+  const evictable = older.filter(v => v.name !== pointer?.current);
+  const evictionOrder = [...evictable.filter(v => v.rolledBack), ...evictable.filter(v => !v.rolledBack), ...previous];
+
+  const expired = evictionOrder.slice(0, Math.max(older.length + 1 - Math.max(retain, 1), 0)).map(v => v.name);
+  return {
+    pointer: {
+      dataset,
+      current: version.name,
+      versions: [...older.filter(v => !expired.includes(v.name)), version],
+      updatedAt: new Date().toISOString()
+    },
+    expired
+  };
+}
+
+/**
+ * Version a rollback switches to: the newest version before the current one that was not rolled back
+ */
+export function rollbackTarget(pointer: ReleasePointer): ReleaseVersion | null {
+  const index = pointer.versions.findIndex(v => v.name === pointer.current);
+  const older = index === -1 ? pointer.versions : pointer.versions.slice(0, index);
+  return [...older].reverse().find(v => !v.rolledBack) ?? null;
+}
+
+/**
+ * Make an earlier version current again; the version switched away from is marked rolled back
+ */
+export function rollBackTo(pointer: ReleasePointer, target: string): void {
+  for (const version of pointer.versions) {
+    if (version.name === pointer.current) version.rolledBack = true;
+    if (version.name === target) delete version.rolledBack;
+  }
+  pointer.current = target;
+}
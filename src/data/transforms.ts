@@ -0,0 +1,151 @@
+/**
+ * Record transform pipeline
+ * Applies the `transforms` steps of a DatasetConfig to records while they are streamed to the server
+ */
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+import { DatasetConfig, TransformStep } from '../config/dataset-config.js';
+import { ConfigValidationError } from '../config/config-schema.js';
+import { DataRecord, readRecords } from './record-reader.js';
+import { coerceValue, parseArrayValue } from './values.js';
+
+/**
+ * A transform function; return null (or undefined) to leave the record out
+ * Custom transform modules export one as their default export.
+ */
+export type RecordTransform = (record: DataRecord) => DataRecord | null | undefined | Promise<DataRecord | null | undefined>;
+
+/**
+ * Compile a computed field expression; `record` is in scope
+ */
+function compileExpression(expression: string, at: string): (record: DataRecord) => unknown {
+  try {
+    return new Function('record', `return (${expression});`) as (record: DataRecord) => unknown;
+  } catch (error: any) {
+    throw new ConfigValidationError('transforms', [{ path: at, message: `invalid expression: ${error.message}` }]);
+  }
+}
+
+/**
+ * Import a custom transform module (default export, or a named `transform` export)
+ * TypeScript modules can be used when running through tsx (pnpm dev).
+ */
+async function loadTransformModule(modulePath: string, at: string): Promise<RecordTransform> {
+  let mod: { default?: unknown; transform?: unknown };
+  try {
+    mod = await import(pathToFileURL(path.resolve(modulePath)).href);
+  } catch (error: any) {
+    throw new ConfigValidationError('transforms', [{ path: at, message: `cannot load ${modulePath}: ${error.message}` }]);
+  }
+
+  const fn = typeof mod.default === 'function' ? mod.default : mod.transform;
+  if (typeof fn !== 'function') {
+    throw new ConfigValidationError('transforms', [{ path: at, message: `${modulePath} does not export a transform function` }]);
+  }
+  return fn as RecordTransform;
+}
+
+/**
+ * Build one function applying every step of a pipeline
+ * Expressions are compiled and modules imported up front, so mistakes surface before any upload.
+ */
+export async function createRecordTransform(steps: TransformStep[]): Promise<RecordTransform> {
+  const compiled: RecordTransform[] = [];
+
+  for (const [idx, step] of steps.entries()) {
+    const at = `transforms[${idx}]`;
+
+    if ('rename' in step) {
+      const renames = Object.entries(step.rename);
+      compiled.push(record => {
+        for (const [from, to] of renames) {
+          if (from in record) {
+            record[to] = record[from];
+            delete record[from];
+          }
+        }
+        return record;
+      });
+    } else if ('drop' in step) {
+      const fields = step.drop;
+      compiled.push(record => {
+        fields.forEach(f => delete record[f]);
+        return record;
+      });
+    } else if ('coerce' in step) {
+      const coercions = Object.entries(step.coerce);
+      compiled.push(record => {
+        for (const [field, type] of coercions) {
+          if (field in record) {
+            record[field] = coerceValue(record[field], type);
+          }
+        }
+        return record;
+      });
+    } else if ('parseArray' in step) {
+      const fields = step.parseArray;
+      compiled.push(record => {
+        fields.filter(f => f in record).forEach(f => (record[f] = parseArrayValue(record[f])));
+        return record;
+      });
+    } else if ('compute' in step) {
+      const expressions = Object.entries(step.compute).map(([field, expr]) => [field, compileExpression(expr, `${at}.compute.${field}`)] as const);
+      compiled.push(record => {
+        for (const [field, evaluate] of expressions) {
+          record[field] = evaluate(record);
+        }
+        return record;
+      });
+    } else {
+      compiled.push(await loadTransformModule(step.module, `${at}.module`));
+    }
+  }
+
+  return async record => {
+    let current: DataRecord | null | undefined = { ...record };
+    for (const fn of compiled) {
+      current = await fn(current);
+      if (current === null || current === undefined) {
+        return null;
+      }
+    }
+    return current;
+  };
+}
+
+/**
+ * Apply a transform to a stream of records, leaving out records it rejects
+ */
+export async function* transformRecords(records: AsyncIterable<DataRecord>, transform: RecordTransform): AsyncGenerator<DataRecord> {
+  for await (const record of records) {
+    const transformed = await transform(record);
+    if (transformed) {
+      yield transformed;
+    }
+  }
+}
+
+/**
+ * Read the records of a dataset's data file (in its `input` format) as they are sent to the server
+ * Pass the transform built from `config.transforms`; without one the records are read as they are.
+ */
+export function readDatasetRecords(config: DatasetConfig, transform?: RecordTransform): AsyncGenerator<DataRecord> {
+  const records = readRecords(config.filePath, config.input);
+  return transform ? transformRecords(records, transform) : records;
+}
+
+/**
+ * Serialize records as a JSON array, one chunk per record, for streaming uploads
+ */
+export function jsonArrayStream(records: AsyncIterable<DataRecord>): Readable {
+  return Readable.from((async function* () {
+    let first = true;
+    yield '[';
+    for await (const record of records) {
+      yield (first ? '' : ',') + JSON.stringify(record);
+      first = false;
+    }
+    yield ']';
+  })());
+}
@@ -0,0 +1,93 @@
+/**
+ * Value conversions shared by the record readers and the transform pipeline
+ */
+import { CoerceType } from '../config/dataset-config.js';
+
+/**
+ * Parse a list-like string: JSON arrays, Python-style lists ("['a', 'b']") or comma separated text
+ */
+export function parseArrayValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const text = value.trim();
+  if (text.startsWith('[') && text.endsWith(']')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON; most likely single-quoted items, handled below
+    }
+  }
+
+  const inner = text.startsWith('[') && text.endsWith(']') ? text.slice(1, -1) : text;
+  const items: string[] = [];
+  const pattern = /\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([^,]*))\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(inner)) !== null && match[0] !== '') {
+    const item = (match[1] ?? match[2] ?? match[3] ?? '').trim();
+    if (item !== '') {
+      items.push(item.replace(/\\(.)/g, '$1'));
+    }
+  }
+  return items;
+}
+
+/**
+ * Convert a value to the requested type; values that cannot be converted become null
+ */
+export function coerceValue(value: unknown, type: CoerceType): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number':
+    case 'integer': {
+      const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (!Number.isFinite(n)) return null;
+      return type === 'integer' ? Math.trunc(n) : n;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes', 'y'].includes(text)) return true;
+      if (['false', '0', 'no', 'n', ''].includes(text)) return false;
+      return null;
+    }
+  }
+}
+
+/**
+ * Guess column types for text-only formats such as CSV
+ * A column gets a type when every non-empty value parses as it; other columns are left out (strings).
+ */
+export async function inferColumnTypes(records: AsyncIterable<Record<string, unknown>>): Promise<Record<string, CoerceType>> {
+  const candidates = new Map<string, Set<CoerceType>>();
+
+  for await (const record of records) {
+    for (const [column, value] of Object.entries(record)) {
+      if (!candidates.has(column)) {
+        candidates.set(column, new Set<CoerceType>(['integer', 'number', 'boolean']));
+      }
+      const text = typeof value === 'string' ? value.trim() : '';
+      if (text === '') continue;
+
+      const types = candidates.get(column)!;
+      if (!/^-?\d+$/.test(text)) types.delete('integer');
+      if (!Number.isFinite(Number(text))) types.delete('number');
+      if (!['true', 'false'].includes(text.toLowerCase())) types.delete('boolean');
+    }
+  }
+
+  const columns: Record<string, CoerceType> = {};
+  for (const [column, types] of candidates) {
+    const type = (['integer', 'number', 'boolean'] as CoerceType[]).find(t => types.has(t));
+    if (type) {
+      columns[column] = type;
+    }
+  }
+  return columns;
+}
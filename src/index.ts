@@ -1,137 +1,167 @@
-#!/usr/bin/env node
 /**
- * IndxNodeLoader - Entry point
- * Converts C# Program.cs to TypeScript
+ * IndxNodeLoader - Library entry point
+ * Exposes the client, load workflow and config helpers for use from other Node programs.
+ * The command line tool lives in cli.ts.
  */
-import dotenv from 'dotenv';
-import { Command } from 'commander';
-import inquirer from 'inquirer';
-import axios from 'axios';
-import https from 'https';
-import { ConsoleHelper } from './utils/console-helper.js';
-import { setBearerToken, login } from './utils/auth.js';
-import { getConfig, getAvailableDatasets } from './config/dataset-config.js';
-import { loadDataset } from './api/load-api.js';
-
-// Load environment variables from .env.local file
-dotenv.config({ path: '.env.local' });
-
-// Get configuration from environment variables
-const uri = process.env.API_URI || 'https://localhost:5001/';
-const bearerToken = process.env.BEARER_TOKEN || '';
-const userEmail = process.env.USER_EMAIL || '';
-const userPassword = process.env.USER_PASSWORD || '';
-
-/**
- * Show interactive dataset selection menu
- */
-async function showInteractiveMenu(): Promise<string | null> {
-  ConsoleHelper.writeHeader('Dataset Selection');
-  console.log();
-
-  const datasets = getAvailableDatasets();
-
-  const answer = await inquirer.prompt([
-    {
-      type: 'list',
-      name: 'dataset',
-      message: 'Select dataset:',
-      choices: [
-        ...datasets.map((ds, idx) => ({ name: `${idx + 1}. ${ds}`, value: ds })),
-        { name: '0. Exit', value: null }
-      ]
-    }
-  ]);
-
-  return answer.dataset;
-}
-
-/**
- * Main entry point
- */
-async function main(): Promise<void> {
-  // Create root command
-  const program = new Command();
-
-  program
-    .name('indx-node-loader')
-    .description('IndxNodeLoader - Load and configure datasets for IndxCloudApi')
-    .version('1.0.0');
-
-  // Add dataset option
-  program
-    .option('-d, --dataset <name>', 'Dataset to load (tmdb or pokedex). If not provided, interactive mode will prompt for selection.');
-
-  program.parse(process.argv);
-
-  const options = program.opts();
-
-  try {
-    // Determine dataset
-    let dataset = options.dataset;
-
-    // If no dataset provided, show interactive menu
-    if (!dataset) {
-      dataset = await showInteractiveMenu();
-      if (dataset === null) {
-        ConsoleHelper.writeWarning('No dataset selected. Exiting.');
-        return;
-      }
-    }
-
-    // Get configuration
-    const config = getConfig(dataset);
-    if (config === null) {
-      ConsoleHelper.writeError(`Unknown dataset: ${dataset}`);
-      ConsoleHelper.writeInfo(`Available datasets: ${getAvailableDatasets().join(', ')}`);
-      return;
-    }
-
-    // Initialize HTTP client
-    // For localhost development with self-signed certificates, disable SSL verification
-    const httpsAgent = new https.Agent({
-      rejectUnauthorized: uri.includes('localhost') ? false : true
-    });
-
-    const client = axios.create({
-      timeout: 5 * 60 * 1000, // 5 minutes timeout
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      httpsAgent: httpsAgent
-    });
-
-    // Set authentication
-    if (bearerToken) {
-      setBearerToken(client, bearerToken, uri);
-    } else if (userEmail && userPassword) {
-      ConsoleHelper.writeInfo('Authenticating with email and password...');
-      const token = await login(client, userEmail, userPassword, uri);
-      if (!token) {
-        ConsoleHelper.writeError('Login failed');
-        return;
-      }
-      ConsoleHelper.writeSuccess('Authentication successful');
-    } else {
-      ConsoleHelper.writeError('No authentication credentials provided');
-      ConsoleHelper.writeInfo('Please set BEARER_TOKEN or USER_EMAIL and USER_PASSWORD in .env.local');
-      return;
-    }
-
-    // Load the dataset
-    await loadDataset(dataset, config, client, uri);
-  } catch (error: any) {
-    ConsoleHelper.writeError(`Fatal error: ${error.message}`);
-    if (error.cause) {
-      ConsoleHelper.writeError(`  Inner exception: ${error.cause}`);
-    }
-    process.exit(-1);
-  }
-}
-
-// Run main function
-main().catch((error) => {
-  ConsoleHelper.writeError(`Unhandled error: ${error.message}`);
-  process.exit(-1);
-});
+export { IndxClient, SEARCH_CONTROLLER_ROUTE } from './api/indx-client.js';
+export type { IndxClientOptions } from './api/indx-client.js';
+export { DEFAULT_RETRY_STATUSES, isTransientError, retryDelay } from './api/retry.js';
+export type { RetryOptions, RetryEvent } from './api/retry.js';
+export {
+  IndxError,
+  IndxAuthError,
+  IndxNotFoundError,
+  IndxServerError,
+  IndxNetworkError,
+  IndxStateError,
+  toIndxError
+} from './api/errors.js';
+export { connect, getApiUri, readConnectionSettings, profileSettings, connectionSettingsFor } from './api/connection.js';
+export type { Connection, ConnectionSettings } from './api/connection.js';
+export { createTransport, proxyFor } from './api/transport.js';
+export type { Transport } from './api/transport.js';
+export { waitForState, stateName, DEFAULT_FAILURE_STATES } from './api/wait-for-state.js';
+export type { WaitOptions, WaitResult } from './api/wait-for-state.js';
+export { DatasetLoader, LoadStepError, loadDataset, DEFAULT_BATCH_SIZE } from './api/load-api.js';
+export {
+  FIELD_CATEGORIES,
+  getLiveFieldConfiguration,
+  diffFieldConfiguration,
+  planFields,
+  applyFieldPlan,
+  describeFieldPlan
+} from './api/field-plan.js';
+export type { FieldCategory, LiveFieldConfiguration, CategoryDiff, WeightChange, FieldPlan, ApplyResult } from './api/field-plan.js';
+export { createConfiguredFilters, createFilter, createFilterFromExpression, createBoost, describeFilter } from './api/filters.js';
+export type { FilterSetup, CreatedFilter, CreatedBoost } from './api/filters.js';
+export {
+  DEFAULT_RELEVANCE_K,
+  runRelevanceSuite,
+  evaluateQuery,
+  summarizeRelevance,
+  describeQueryEvaluation
+} from './api/relevance.js';
+export type { QueryEvaluation, RelevanceReport } from './api/relevance.js';
+export {
+  BENCH_MODES,
+  runBenchmark,
+  readQueryFile,
+  generateQueries,
+  readBenchResult,
+  writeBenchResult,
+  compareBenchResults
+} from './api/bench.js';
+export type { BenchMode, BenchOptions, BenchProgress, BenchResult, BenchDelta, LatencyStats } from './api/bench.js';
+export {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  exportDataset,
+  scanRecords,
+  readArchive
+} from './api/archive.js';
+export type { ArchiveManifest, ExportOptions, ExportResult } from './api/archive.js';
+export type {
+  DatasetLoaderOptions,
+  UploadOptions,
+  BlueGreenLoadOptions,
+  LoadStep,
+  StepStatus,
+  StepResult,
+  SearchHit,
+  LoadResult,
+  SyncResult,
+  LoaderEvents,
+  StepStartedEvent,
+  ProgressEvent,
+  WarningEvent
+} from './api/load-api.js';
+export {
+  Weight,
+  DEFAULT_CONFIG_DIR,
+  ConfigValidationError,
+  loadConfigFile,
+  discoverConfigs,
+  getConfig,
+  getAvailableDatasets
+} from './config/dataset-config.js';
+export type {
+  DatasetConfig,
+  SearchableField,
+  InputFormat,
+  InputOptions,
+  TransformStep,
+  CoerceType,
+  ValidationOptions,
+  FilterDef,
+  FilterRef,
+  NamedFilter,
+  BoostDef,
+  BoostStrengthName,
+  GoldenQuery,
+  ExpectedHit,
+  RelevanceOptions,
+  BlueGreenOptions,
+  ConfigDiscovery,
+  ConfigIssue
+} from './config/dataset-config.js';
+export { validateDatasetConfig } from './config/config-schema.js';
+export { parseFilterExpression, FilterSyntaxError, filterFields, filterReferences } from './config/filter-expression.js';
+export {
+  PROFILES_FILE,
+  profilesPath,
+  readProfiles,
+  writeProfiles,
+  getProfile,
+  activeProfile,
+  isEnvFile,
+  profileForEnv,
+  validateProfileName
+} from './config/profiles.js';
+export type { Profile, ProfilesFile, TlsOptions, AuthMethod } from './config/profiles.js';
+export { STATE_DIR, stateDir, stateDirFor, setStateDir } from './utils/paths.js';
+export {
+  DEFAULT_KEY_FIELD,
+  manifestPath,
+  readManifest,
+  writeManifest,
+  deleteManifest,
+  buildManifest,
+  diffRecords,
+  documentKey
+} from './data/manifest.js';
+export type { Manifest, RecordDiff } from './data/manifest.js';
+export { checkpointPath, readCheckpoint, deleteCheckpoint } from './data/checkpoint.js';
+export type { UploadCheckpoint } from './data/checkpoint.js';
+export {
+  DEFAULT_RETAIN,
+  versionedName,
+  versionOf,
+  releasePath,
+  readReleases,
+  writeReleases,
+  resolveDatasetName,
+  promoteVersion,
+  rollbackTarget,
+  rollBackTo
+} from './data/releases.js';
+export type { ReleasePointer, ReleaseVersion } from './data/releases.js';
+export { createRecordTransform, transformRecords, readDatasetRecords } from './data/transforms.js';
+export { parseArrayValue, coerceValue, inferColumnTypes } from './data/values.js';
+export {
+  DEFAULT_MAX_MISSING_PERCENT,
+  DEFAULT_MAX_MIXED_TYPE_PERCENT,
+  validateRecords,
+  validateProfiles,
+  describeFieldReport,
+  describeDataIssue
+} from './data/data-validation.js';
+export type { DataValidationReport, FieldReport, DataIssue, IssueSeverity } from './data/data-validation.js';
+export { readRecords, readJsonRecords, resolveInput, isPlainJson } from './data/record-reader.js';
+export type { DataRecord, ResolvedInput } from './data/record-reader.js';
+export type { RecordTransform } from './data/transforms.js';
+export { setBearerToken, login, tokenExpiry, isTokenFresh, enableTokenRefresh, TOKEN_REFRESH_MARGIN_MS } from './utils/auth.js';
+export type { TokenRefreshOptions } from './utils/auth.js';
+export { tokenCachePath, readCachedToken, writeCachedToken, deleteCachedToken } from './utils/token-cache.js';
+export type { CachedToken } from './utils/token-cache.js';
+export { EXIT_CODES, enableCiMode, isCiMode, stageExitCode, loadExitCode } from './utils/ci.js';
+export type { CiReport, ExitStage } from './utils/ci.js';
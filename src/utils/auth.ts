@@ -2,7 +2,16 @@
  * Authentication utilities for IndxCloudApi
  * Converts C# Login.cs authentication methods
  */
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { Readable } from 'stream';
+import { IndxAuthError, toIndxError } from '../api/errors.js';
+
+const LOGIN_ROUTE = 'api/login';
+
+/**
+ * Tokens are renewed when they expire within this margin, so no request is sent with a token about to lapse
+ */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
 
 export interface JWT {
   token: string;
@@ -22,43 +31,143 @@ export function setBearerToken(client: AxiosInstance, bearerToken: string, uri:
 /**
  * Login to IndxCloudApi and retrieve JWT token
  * Equivalent to C# Login method
+ *
+ * Throws IndxAuthError when the credentials are rejected (401/403) or no token is returned.
  */
-export async function login(client: AxiosInstance, userEmail: string, userPassword: string, uri: string): Promise<string | null> {
-  try {
-    client.defaults.baseURL = uri;
-    client.defaults.headers.common['Content-Type'] = 'application/json';
-    client.defaults.headers.common['Accept'] = 'application/json';
+export async function login(client: AxiosInstance, userEmail: string, userPassword: string, uri: string): Promise<string> {
+  client.defaults.baseURL = uri;
+  client.defaults.headers.common['Content-Type'] = 'application/json';
+  client.defaults.headers.common['Accept'] = 'application/json';
 
-    // Create login credentials object
-    // Note: Property names must match exactly as the API expects (UserEmail, UserPassWord)
-    const loginInfo = {
-      UserEmail: userEmail,
-      UserPassWord: userPassword
-    };
+  // Create login credentials object
+  // Note: Property names must match exactly as the API expects (UserEmail, UserPassWord)
+  const loginInfo = {
+    UserEmail: userEmail,
+    UserPassWord: userPassword
+  };
 
+  let jwt: JWT;
+  try {
     // Send POST request with login credentials
-    const response = await client.post<JWT>('api/login', loginInfo);
-
-    if (response.status >= 200 && response.status < 300) {
-      const jwt = response.data;
-      if (jwt && jwt.token) {
-        // Apply JWT token to client headers
-        client.defaults.headers.common['Authorization'] = `Bearer ${jwt.token}`;
-        return jwt.token;
-      }
-    } else {
-      console.log(`Error: ${response.status}`);
-      console.log(`Response: ${JSON.stringify(response.data)}`);
-      throw new Error(`Login failed: ${JSON.stringify(response.data)}`);
+    const response = await client.post<JWT>(LOGIN_ROUTE, loginInfo);
+    jwt = response.data;
+  } catch (error) {
+    throw toIndxError(error, LOGIN_ROUTE);
+  }
+
+  if (!jwt || !jwt.token) {
+    throw new IndxAuthError('Login failed: no token in response', LOGIN_ROUTE, undefined, jwt);
+  }
+
+  // Apply JWT token to client headers
+  client.defaults.headers.common['Authorization'] = `Bearer ${jwt.token}`;
+  return jwt.token;
+}
+
+/**
+ * Expiry of a JWT from its `exp` claim
+ * Returns null for tokens without one, or that are not JWTs; such tokens are treated as never expiring.
+ */
+export function tokenExpiry(token: string): Date | null {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token is still valid for at least `marginMs`
+ */
+export function isTokenFresh(token: string, marginMs: number = TOKEN_REFRESH_MARGIN_MS): boolean {
+  const expiry = tokenExpiry(token);
+  return expiry === null || expiry.getTime() - Date.now() > marginMs;
+}
+
+/**
+ * Request config that can create its body again, so a request with a stream body can be replayed
+ * after a 401 (the stream itself has been consumed by then)
+ */
+export interface RecreatableBodyConfig extends AxiosRequestConfig {
+  createData?: () => unknown;
+}
+
+/**
+ * Request config marked once a request was replayed after a 401, so it is not replayed again
+ */
+interface ReplayableRequestConfig extends InternalAxiosRequestConfig {
+  createData?: () => unknown;
+  authReplayed?: boolean;
+}
+
+export interface TokenRefreshOptions {
+  userEmail: string;
+  userPassword: string;
+  uri: string;
+  /** Renew the token when it expires within this margin (default 5 minutes) */
+  marginMs?: number;
+  /** Called with every new token, e.g. to cache it */
+  onToken?: (token: string) => void;
+}
+
+/**
+ * Keep the bearer token of a client valid for as long as the client is used
+ * Before each request, a token that is about to expire is renewed by logging in again. A request
+ * rejected with 401 is replayed once after logging in again; a stream body is created again with the
+ * request's `createData`, and without one the 401 is passed on. Concurrent requests share one login.
+ */
+export function enableTokenRefresh(client: AxiosInstance, token: string, options: TokenRefreshOptions): void {
+  const marginMs = options.marginMs ?? TOKEN_REFRESH_MARGIN_MS;
+  let current = token;
+  let pending: Promise<string> | null = null;
+
+  const renew = (): Promise<string> => {
+    pending ??= login(client, options.userEmail, options.userPassword, options.uri)
+      .then(renewed => {
+        current = renewed;
+        options.onToken?.(renewed);
+        return renewed;
+      })
+      .finally(() => {
+        pending = null;
+      });
+    return pending;
+  };
+
+  client.interceptors.request.use(async config => {
+    if (config.url === LOGIN_ROUTE) {
+      return config;
     }
-  } catch (error: any) {
-    if (axios.isAxiosError(error)) {
-      console.log(`Error: ${error.response?.status}`);
-      console.log(`Response: ${JSON.stringify(error.response?.data)}`);
-      throw new Error(`Login failed: ${error.message}`);
+    if (!isTokenFresh(current, marginMs)) {
+      await renew();
     }
-    throw error;
-  }
+    config.headers.set('Authorization', `Bearer ${current}`);
+    return config;
+  });
 
-  return null;
+  client.interceptors.response.use(undefined, async error => {
+    const config: ReplayableRequestConfig | undefined = axios.isAxiosError(error) ? error.config : undefined;
+    if (!config || error.response?.status !== 401 || config.url === LOGIN_ROUTE || config.authReplayed) {
+      throw error;
+    }
+
+    // Another request may have renewed the token while this one was on its way
+    if (config.headers.get('Authorization') === `Bearer ${current}`) {
+      await renew();
+    }
+    let data = config.data;
+    if (data instanceof Readable) {
+      if (!config.createData) {
+        throw error;
+      }
+      data.destroy();
+      data = config.createData();
+    }
+    return client.request({ ...config, data, authReplayed: true } as ReplayableRequestConfig);
+  });
 }
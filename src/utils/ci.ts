@@ -0,0 +1,131 @@
+/**
+ * Non-interactive CI mode (--ci)
+ * Nothing prompts, human-readable output goes to stderr without colors, and stdout carries a single
+ * JSON report of the outcome. A failed load exits with the code of the stage that failed.
+ */
+import chalk from 'chalk';
+import type { LoadResult, LoadStep } from '../api/load-api.js';
+import { IndxAuthError } from '../api/errors.js';
+
+/**
+ * Exit codes in CI mode
+ * Outside CI mode failures exit with 1 (-1 for fatal errors), as before.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Any failure without a more specific code, e.g. an unknown dataset or a refused confirmation */
+  failure: 1,
+  /** Invalid config file */
+  config: 2,
+  /** Missing, rejected or expired credentials */
+  auth: 3,
+  /** Pre-flight data validation */
+  validate: 4,
+  create: 5,
+  analyze: 6,
+  /** Field configuration, its verification, filters and boosts */
+  configure: 7,
+  /** Uploading records, including incremental syncs */
+  load: 8,
+  index: 9,
+  testSearch: 10,
+  relevance: 11,
+  /** Promoting a blue/green version */
+  promote: 12
+} as const;
+
+export type ExitStage = keyof typeof EXIT_CODES;
+
+const STEP_STAGES: Record<LoadStep, ExitStage> = {
+  validate: 'validate',
+  profile: 'validate',
+  create: 'create',
+  analyze: 'analyze',
+  configure: 'configure',
+  verify: 'configure',
+  filters: 'configure',
+  load: 'load',
+  diff: 'load',
+  upsert: 'load',
+  delete: 'load',
+  index: 'index',
+  testSearch: 'testSearch',
+  relevance: 'relevance',
+  promote: 'promote',
+  cleanup: 'promote'
+};
+
+/**
+ * JSON document written to stdout when a CI mode run ends
+ */
+export interface CiReport {
+  command: string;
+  success: boolean;
+  exitCode: number;
+  /** Stage that failed, when there is one */
+  stage?: ExitStage;
+  /** Errors and warnings printed during the run, without formatting */
+  errors: string[];
+  warnings: string[];
+  /** Result of the load, sync, restore or copy */
+  result?: unknown;
+}
+
+let enabled = false;
+const report: CiReport = { command: '', success: true, exitCode: 0, errors: [], warnings: [] };
+
+/**
+ * Switch to CI mode: stdout is reserved for the report, so everything printed (including plain
+ * console.log calls) goes to stderr, without colors
+ */
+export function enableCiMode(): void {
+  enabled = true;
+  chalk.level = 0;
+  console.log = console.error;
+}
+
+export function isCiMode(): boolean {
+  return enabled;
+}
+
+/**
+ * Note a printed error or warning for the report
+ */
+export function recordCiMessage(level: 'error' | 'warning', message: string): void {
+  (level === 'error' ? report.errors : report.warnings).push(message);
+}
+
+/**
+ * Exit code for a failed run in the given stage: the stage's code in CI mode, `fallback` otherwise
+ */
+export function stageExitCode(stage: ExitStage, fallback: number = EXIT_CODES.failure): number {
+  if (!enabled) {
+    return fallback;
+  }
+  report.stage = stage;
+  return EXIT_CODES[stage];
+}
+
+/**
+ * Record a load result for the report and return the exit code it calls for
+ * Credentials rejected during a step count as an auth failure rather than a failure of that step.
+ */
+export function loadExitCode(result: LoadResult): number {
+  report.result = result;
+  if (result.success) {
+    return EXIT_CODES.success;
+  }
+  const rejected = result.error instanceof IndxAuthError || result.error?.cause instanceof IndxAuthError;
+  return stageExitCode(rejected ? 'auth' : STEP_STAGES[result.failedStep ?? 'load']);
+}
+
+/**
+ * Write the report to stdout; errors become { name, message } objects
+ */
+export function writeCiReport(command: string, exitCode: number): void {
+  report.command = command;
+  report.exitCode = exitCode;
+  report.success = exitCode === EXIT_CODES.success;
+  const json = JSON.stringify(report, (_key, value) => value instanceof Error ? { name: value.name, message: value.message } : value, 2);
+  process.stdout.write(`${json}\n`);
+}
@@ -3,10 +3,19 @@
  * Converts C# Console.ForegroundColor to chalk colored output
  */
 import chalk from 'chalk';
+import { isCiMode, recordCiMessage } from './ci.js';
 
 export class ConsoleHelper {
+  // Server profile shown in every header, so output always says which server it is about
+  private static profile?: string;
+
+  static setProfile(profile: string | undefined): void {
+    this.profile = profile;
+  }
+
   static writeHeader(message: string): void {
-    console.log(chalk.cyan(`\n━━━ ${message} ━━━`));
+    const profile = this.profile ? chalk.magenta(` [${this.profile}]`) : '';
+    console.log(chalk.cyan(`\n━━━ ${message} ━━━`) + profile);
   }
 
   static writeSuccess(message: string): void {
@@ -18,14 +27,18 @@ export class ConsoleHelper {
   }
 
   static writeWarning(message: string): void {
+    if (isCiMode()) recordCiMessage('warning', message);
     console.log(chalk.yellow(`⚠ ${message}`));
   }
 
   static writeError(message: string): void {
+    if (isCiMode()) recordCiMessage('error', message);
     console.log(chalk.red(`✗ ${message}`));
   }
 
   static writeProgress(message: string): void {
+    // Carriage-return progress only clutters CI logs
+    if (isCiMode()) return;
     process.stdout.write(`\r${message}`);
   }
 
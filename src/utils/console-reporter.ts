@@ -0,0 +1,171 @@
+/**
+ * Console reporter for the load workflow
+ * Renders DatasetLoader events and the final LoadResult with ConsoleHelper
+ */
+import { ConsoleHelper } from './console-helper.js';
+import { DatasetConfig } from '../config/dataset-config.js';
+import { IndxNetworkError } from '../api/errors.js';
+import { DatasetLoader, LoadResult, LoadStep, StepResult, SyncResult } from '../api/load-api.js';
+
+// Steps that start a new section of output
+const STEP_HEADERS: Partial<Record<LoadStep, string>> = {
+  load: 'Loading Data',
+  diff: 'Comparing With Previous Load',
+  upsert: 'Uploading Changes',
+  index: 'Building Search Index',
+  testSearch: 'Running Test Search',
+  relevance: 'Checking Relevance',
+  promote: 'Promoting Version'
+};
+
+// Steps that poll the server and show an animated progress line
+const POLLING_STEPS: LoadStep[] = ['profile', 'load', 'upsert', 'index'];
+
+export interface ConsoleReporterOptions {
+  /** API URI, shown in troubleshooting hints */
+  uri?: string;
+}
+
+/**
+ * Print troubleshooting hints for a failed step
+ */
+function writeTroubleshooting(result: StepResult, options: ConsoleReporterOptions): void {
+  if (result.error instanceof IndxNetworkError) {
+    ConsoleHelper.writeInfo('Troubleshooting:');
+    ConsoleHelper.writeInfo(`  - Cannot connect to: ${options.uri ?? 'the API'}`);
+    ConsoleHelper.writeInfo('  - Is IndxCloudApi running?');
+    ConsoleHelper.writeInfo('  - Check your firewall settings');
+  } else if (result.step === 'create') {
+    ConsoleHelper.writeInfo('Troubleshooting:');
+    ConsoleHelper.writeInfo('  1. Verify API_URI in .env.local is correct');
+    ConsoleHelper.writeInfo('  2. Ensure IndxCloudApi is running');
+    ConsoleHelper.writeInfo('  3. Check that BEARER_TOKEN is valid (not expired)');
+  } else if (result.step === 'validate') {
+    ConsoleHelper.writeInfo('Please ensure the data file exists in the correct location.');
+  } else if (result.step === 'relevance') {
+    ConsoleHelper.writeInfo('Compare the results above with the expected document keys (- missing, + unexpected),');
+    ConsoleHelper.writeInfo('then adjust the field weights or the golden queries in the config.');
+  } else if (result.step === 'profile') {
+    ConsoleHelper.writeInfo('Fix the data or the field configuration, relax the thresholds under "validation" in the config,');
+    ConsoleHelper.writeInfo('or run with --skip-validation to load anyway.');
+  }
+}
+
+/**
+ * Subscribe to a loader's events and print them as they happen
+ */
+export function attachConsoleReporter(loader: DatasetLoader, options: ConsoleReporterOptions = {}): void {
+  let dotCount = 0;
+  let progressShown = false;
+
+  loader.on('stepStarted', ({ step, description }) => {
+    const header = STEP_HEADERS[step];
+    if (header) {
+      ConsoleHelper.writeHeader(header);
+    }
+    ConsoleHelper.writeInfo(description);
+    dotCount = 0;
+  });
+
+  loader.on('progress', ({ step, message }) => {
+    if (POLLING_STEPS.includes(step)) {
+      dotCount++;
+      progressShown = true;
+      ConsoleHelper.writeProgress(`${message}${'.'.repeat(dotCount % 4)}   `);
+    } else {
+      ConsoleHelper.writeInfo(message);
+    }
+  });
+
+  loader.on('warning', ({ message }) => {
+    ConsoleHelper.writeWarning(message);
+  });
+
+  loader.on('stepCompleted', result => {
+    if (progressShown) {
+      console.log(); // New line after progress
+      progressShown = false;
+    }
+
+    if (result.status === 'failed') {
+      ConsoleHelper.writeError(result.message);
+      for (const detail of result.details) {
+        ConsoleHelper.writeInfo(detail);
+      }
+      writeTroubleshooting(result, options);
+      return;
+    }
+
+    if (result.status === 'skipped') {
+      ConsoleHelper.writeInfo(result.message);
+    } else {
+      ConsoleHelper.writeSuccess(result.message);
+    }
+    for (const detail of result.details) {
+      ConsoleHelper.writeInfo(detail);
+    }
+  });
+}
+
+/**
+ * Print the test search hits and the final summary of a successful load
+ */
+export function writeLoadSummary(result: LoadResult, config: DatasetConfig): void {
+  if (!result.success) {
+    ConsoleHelper.writeError(`Dataset load failed at step "${result.failedStep}"`);
+    return;
+  }
+
+  console.log();
+  let resultNum = 1;
+  for (const hit of result.testSearch?.hits ?? []) {
+    console.log(`Result ${resultNum}:`);
+    ConsoleHelper.writeInfo(`  Score: ${hit.score.toFixed(2)}`);
+    ConsoleHelper.writeInfo(`  Document Key: ${hit.documentKey}`);
+    ConsoleHelper.writeInfo(`  Data: ${hit.record}`);
+    console.log();
+    resultNum++;
+  }
+
+  ConsoleHelper.writeSummary('Dataset Load Complete', {
+    'Dataset': result.dataset,
+    ...(result.version ? { 'Version': result.version } : {}),
+    'Total Records': result.recordCount.toLocaleString(),
+    'Searchable Fields': config.searchableFields.length,
+    'Word Indexing Fields': config.wordIndexingFields.length,
+    'Filterable Fields': config.filterableFields.length,
+    'Facetable Fields': config.facetableFields.length,
+    'Sortable Fields': config.sortableFields.length,
+    'Loading Time': `${(result.loadingTimeMs / 1000).toFixed(1)}s`,
+    'Indexing Time': `${(result.indexingTimeMs / 1000).toFixed(1)}s`,
+    'Total Time': `${(result.totalTimeMs / 1000).toFixed(1)}s`,
+    'Test Query Results': result.testSearch?.hits.length ?? 0,
+    ...(result.relevance ? { 'Relevance (MRR)': result.relevance.mrr.toFixed(3) } : {})
+  });
+
+  ConsoleHelper.writeSuccess('Dataset is ready for use!');
+  console.log();
+}
+
+/**
+ * Print the summary of an incremental sync
+ */
+export function writeSyncSummary(result: SyncResult): void {
+  if (!result.success) {
+    ConsoleHelper.writeError(`Dataset sync failed at step "${result.failedStep}"`);
+    return;
+  }
+
+  ConsoleHelper.writeSummary('Dataset Sync Complete', {
+    'Dataset': result.dataset,
+    'Added': result.added.toLocaleString(),
+    'Updated': result.updated.toLocaleString(),
+    'Deleted': result.deleted.toLocaleString(),
+    'Unchanged': result.unchanged.toLocaleString(),
+    'Total Records': result.recordCount.toLocaleString(),
+    'Upload Time': `${(result.loadingTimeMs / 1000).toFixed(1)}s`,
+    'Indexing Time': `${(result.indexingTimeMs / 1000).toFixed(1)}s`,
+    'Total Time': `${(result.totalTimeMs / 1000).toFixed(1)}s`
+  });
+  console.log();
+}
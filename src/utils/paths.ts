@@ -0,0 +1,42 @@
+/**
+ * Locations of files the loader keeps between runs
+ */
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Project-local directory for loader state such as manifests and checkpoints (kept out of version control)
+ */
+export const STATE_DIR = '.indx';
+
+let activeStateDir = STATE_DIR;
+
+/**
+ * State directory for a server profile; without one, STATE_DIR itself (the server in .env.local)
+ * Every server has its own manifests, checkpoints and release pointers.
+ */
+export function stateDirFor(profile?: string): string {
+  return profile ? path.join(STATE_DIR, 'profiles', profile) : STATE_DIR;
+}
+
+/**
+ * State directory used when a function is not given one
+ */
+export function stateDir(): string {
+  return activeStateDir;
+}
+
+/**
+ * Switch the default state directory, e.g. to the one of the active profile
+ */
+export function setStateDir(dir: string): void {
+  activeStateDir = dir;
+}
+
+/**
+ * Per-user directory for state that is not tied to a project (history, caches)
+ * Override with INDX_HOME.
+ */
+export function userStateDir(): string {
+  return process.env.INDX_HOME || path.join(os.homedir(), '.indx-node-loader');
+}
@@ -0,0 +1,57 @@
+/**
+ * Cache of login tokens, so consecutive commands do not log in again while the token is valid
+ * One file per profile under the user state directory, readable by the current user only
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { userStateDir } from './paths.js';
+import { isTokenFresh, tokenExpiry } from './auth.js';
+
+export interface CachedToken {
+  /** Server and user the token was issued for; a cached token is only used for the same pair */
+  uri: string;
+  userEmail: string;
+  token: string;
+  /** ISO timestamp from the token's exp claim, null when it has none */
+  expiresAt: string | null;
+}
+
+/**
+ * Location of the cached token for a cache key (a profile name)
+ */
+export function tokenCachePath(key: string): string {
+  return path.join(userStateDir(), 'tokens', `${key}.json`);
+}
+
+/**
+ * Cached token for a server and user, or null when there is none that stays valid for the refresh margin
+ */
+export function readCachedToken(key: string, uri: string, userEmail: string): string | null {
+  const file = tokenCachePath(key);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  try {
+    const cached = JSON.parse(fs.readFileSync(file, 'utf-8')) as CachedToken;
+    return cached.uri === uri && cached.userEmail === userEmail && isTokenFresh(cached.token) ? cached.token : null;
+  } catch {
+    // A damaged cache only costs a login
+    return null;
+  }
+}
+
+/**
+ * Cache a token; the directory and file are created for the current user only
+ */
+export function writeCachedToken(key: string, uri: string, userEmail: string, token: string): void {
+  const file = tokenCachePath(key);
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const cached: CachedToken = { uri, userEmail, token, expiresAt: tokenExpiry(token)?.toISOString() ?? null };
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(cached, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  fs.chmodSync(`${file}.tmp`, 0o600);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+export function deleteCachedToken(key: string): void {
+  fs.rmSync(tokenCachePath(key), { force: true });
+}
@@ -0,0 +1,95 @@
+/**
+ * Token renewal: a request rejected with 401 is replayed once after logging in again
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { IndxClient } from '../src/api/indx-client.js';
+import { IndxAuthError } from '../src/api/errors.js';
+import { enableTokenRefresh, setBearerToken } from '../src/utils/auth.js';
+
+interface Upload {
+  authorization?: string;
+  body: string;
+}
+
+/**
+ * Server that accepts `Bearer renewed` only, issues that token on login and records every upload
+ */
+async function startServer(): Promise<{ uri: string; uploads: Upload[]; logins: () => number; close: () => Promise<void> }> {
+  const uploads: Upload[] = [];
+  let logins = 0;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (req.url === '/api/login') {
+        logins++;
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ token: 'renewed' }));
+        return;
+      }
+      uploads.push({ authorization: req.headers.authorization, body });
+      res.writeHead(req.headers.authorization === 'Bearer renewed' ? 200 : 401).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    uri: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+    uploads,
+    logins: () => logins,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+test('a streamed upload rejected with 401 is replayed with a new stream after logging in again', async () => {
+  const server = await startServer();
+  try {
+    const http = axios.create();
+    setBearerToken(http, 'revoked', server.uri);
+    enableTokenRefresh(http, 'revoked', { userEmail: 'loader@example.com', userPassword: 'secret', uri: server.uri });
+    const client = new IndxClient(http, { retry: false });
+
+    let streams = 0;
+    await client.loadRecordStream('pokedex', () => {
+      streams++;
+      return Readable.from(['[{"id":1},', '{"id":2}]']);
+    });
+
+    assert.equal(server.logins(), 1);
+    assert.equal(streams, 2);
+    assert.deepEqual(server.uploads, [
+      { authorization: 'Bearer revoked', body: '[{"id":1},{"id":2}]' },
+      { authorization: 'Bearer renewed', body: '[{"id":1},{"id":2}]' }
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('a streamed upload is replayed only once', async () => {
+  const server = await startServer();
+  try {
+    const http = axios.create();
+    setBearerToken(http, 'revoked', server.uri);
+    // Every login hands out a token the server rejects
+    http.interceptors.response.use(response => {
+      if (response.config.url === 'api/login') {
+        response.data = { token: 'rejected' };
+      }
+      return response;
+    });
+    enableTokenRefresh(http, 'revoked', { userEmail: 'loader@example.com', userPassword: 'secret', uri: server.uri });
+    const client = new IndxClient(http, { retry: false });
+
+    await assert.rejects(
+      client.loadRecordStream('pokedex', () => Readable.from(['[]'])),
+      IndxAuthError
+    );
+    assert.equal(server.uploads.length, 2);
+  } finally {
+    await server.close();
+  }
+});
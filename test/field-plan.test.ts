@@ -0,0 +1,114 @@
+/**
+ * Field configuration drift: the plan against the live configuration, and applying it
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatasetConfig, SearchableField } from '../src/config/dataset-config.js';
+import { IndxClient } from '../src/api/indx-client.js';
+import { LiveFieldConfiguration, applyFieldPlan, describeFieldPlan, diffFieldConfiguration, planFields } from '../src/api/field-plan.js';
+
+const config: DatasetConfig = {
+  name: 'pokedex',
+  filePath: 'data/pokedex.json',
+  searchableFields: [{ name: 'name', weight: 0 }, { name: 'classfication', weight: 1 }],
+  wordIndexingFields: ['name'],
+  filterableFields: ['hp', 'type1'],
+  facetableFields: ['type1'],
+  sortableFields: ['hp'],
+  testQuery: 'pikachu'
+};
+
+function live(overrides: Partial<LiveFieldConfiguration> = {}): LiveFieldConfiguration {
+  return {
+    searchable: [{ name: 'name', weight: 0 }, { name: 'classfication', weight: 1 }],
+    filterable: ['hp', 'type1'],
+    facetable: ['type1'],
+    sortable: ['hp'],
+    wordIndexing: ['name'],
+    ...overrides
+  };
+}
+
+test('a server matching the config has no drift', () => {
+  const plan = diffFieldConfiguration(config, live());
+  assert.equal(plan.hasChanges, false);
+  assert.equal(plan.weightsCompared, true);
+  assert.deepEqual(plan.categories.map(c => c.category), ['searchable', 'filterable', 'facetable', 'sortable', 'wordIndexing']);
+  assert.deepEqual(describeFieldPlan(plan), []);
+});
+
+test('added, removed and reweighted fields are reported per category', () => {
+  const plan = diffFieldConfiguration(config, live({
+    searchable: [{ name: 'name', weight: 1 }, { name: 'classfication', weight: 1 }],
+    filterable: ['hp', 'speed'],
+    sortable: []
+  }));
+  assert.equal(plan.hasChanges, true);
+  assert.deepEqual(plan.weightChanges, [{ field: 'name', from: 1, to: 0 }]);
+  assert.deepEqual(describeFieldPlan(plan), [
+    '+ filterable: type1',
+    '- filterable: speed',
+    '+ sortable: hp',
+    '~ searchable: name weight Med -> High'
+  ]);
+});
+
+test('weights are not compared when the server reports field names only', () => {
+  const plan = diffFieldConfiguration(config, live({ searchable: [{ name: 'name' }, { name: 'classfication', weight: 2 }] }));
+  assert.equal(plan.weightsCompared, false);
+  assert.deepEqual(plan.weightChanges, []);
+  assert.equal(plan.hasChanges, false);
+});
+
+/**
+ * Client keeping a field configuration in memory, like the server: set adds, clear removes from every category
+ */
+function fieldClient(state: LiveFieldConfiguration): { client: IndxClient; calls: string[] } {
+  const calls: string[] = [];
+  const add = (category: Exclude<keyof LiveFieldConfiguration, 'searchable'>) => async (_: string, fields: string[]) => {
+    calls.push(`set ${category}`);
+    state[category] = [...new Set([...state[category], ...fields])];
+  };
+  const client = {
+    getSearchableFields: async () => state.searchable.map(f => ({ Item1: f.name, Item2: f.weight })),
+    getFilterableFields: async () => state.filterable,
+    getFacetableFields: async () => state.facetable,
+    getSortableFields: async () => state.sortable,
+    getWordIndexingFields: async () => state.wordIndexing,
+    setSearchableFields: async (_: string, fields: SearchableField[]) => {
+      calls.push('set searchable');
+      state.searchable = [...state.searchable.filter(f => !fields.some(s => s.name === f.name)), ...fields];
+    },
+    setFilterableFields: add('filterable'),
+    setFacetableFields: add('facetable'),
+    setSortableFields: add('sortable'),
+    setWordIndexingFields: add('wordIndexing'),
+    clearFields: async (_: string, fields: string[]) => {
+      calls.push(`clear ${fields.join(',')}`);
+      state.searchable = state.searchable.filter(f => !fields.includes(f.name));
+      for (const category of ['filterable', 'facetable', 'sortable', 'wordIndexing'] as const) {
+        state[category] = state[category].filter(f => !fields.includes(f));
+      }
+    }
+  };
+  return { client: client as unknown as IndxClient, calls };
+}
+
+test('the live configuration is read from name/weight tuples', async () => {
+  const { client } = fieldClient(live({ searchable: [{ name: 'name', weight: 2 }, { name: 'classfication', weight: 1 }] }));
+  const plan = await planFields(client, config);
+  assert.deepEqual(plan.weightChanges, [{ field: 'name', from: 2, to: 0 }]);
+});
+
+test('applying clears removed fields and sets again every category that still wants a cleared field', async () => {
+  const state = live({ filterable: ['hp', 'type1', 'classfication'], sortable: [] });
+  const { client, calls } = fieldClient(state);
+
+  const result = await applyFieldPlan(client, config, await planFields(client, config));
+
+  assert.deepEqual(result.cleared, ['classfication']);
+  assert.deepEqual(result.updated, ['searchable', 'sortable']);
+  assert.deepEqual(calls, ['clear classfication', 'set searchable', 'set sortable']);
+  assert.equal(result.remaining.hasChanges, false);
+  assert.deepEqual(state, live());
+});
@@ -0,0 +1,80 @@
+/**
+ * Filter expressions: the trees they parse into, and where malformed ones are reported
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FilterSyntaxError, filterFields, filterReferences, parseFilterExpression } from '../src/config/filter-expression.js';
+
+test('ranges, values and parentheses parse into a filter tree', () => {
+  assert.deepEqual(parseFilterExpression('speed:[10.5..50] AND (type1:Fire OR is_legendary:1)'), {
+    all: [
+      { field: 'speed', min: 10.5, max: 50 },
+      { any: [{ field: 'type1', value: 'Fire' }, { field: 'is_legendary', value: 1 }] }
+    ]
+  });
+});
+
+test('AND binds tighter than OR, and keywords are case-insensitive', () => {
+  assert.deepEqual(parseFilterExpression('a:1 or b:2 and c:3'), {
+    any: [{ field: 'a', value: 1 }, { all: [{ field: 'b', value: 2 }, { field: 'c', value: 3 }] }]
+  });
+});
+
+test('quoted values are always strings and may contain escaped quotes', () => {
+  assert.deepEqual(parseFilterExpression('title:"Star \\"Wars\\" AND more"'), { field: 'title', value: 'Star "Wars" AND more' });
+  assert.deepEqual(parseFilterExpression('year:"1999"'), { field: 'year', value: '1999' });
+  assert.deepEqual(parseFilterExpression('year:-1999'), { field: 'year', value: -1999 });
+  assert.deepEqual(parseFilterExpression('flag:true'), { field: 'flag', value: true });
+  assert.deepEqual(parseFilterExpression('flag:True'), { field: 'flag', value: 'True' });
+});
+
+test('bare names refer to named filters', () => {
+  const ref = parseFilterExpression('legendary AND (type1:Fire OR type1:Water)');
+  assert.deepEqual(filterReferences(ref), ['legendary']);
+  assert.deepEqual(filterFields(ref), ['type1']);
+});
+
+/**
+ * Parse an expression that must fail, returning the message (without the position) and the position
+ */
+function syntaxError(expression: string): { message: string; position: number } {
+  try {
+    parseFilterExpression(expression);
+  } catch (error) {
+    assert.ok(error instanceof FilterSyntaxError, `${expression}: ${error}`);
+    return { message: error.message.replace(/ \(at position \d+\)$/, ''), position: error.position };
+  }
+  assert.fail(`"${expression}" parsed without an error`);
+}
+
+test('malformed expressions report the message and position of the problem', () => {
+  const cases: [string, string, number][] = [
+    ['', 'Empty filter expression', 0],
+    [':5', 'Expected a field name, got ":"', 0],
+    ['AND a:1', 'Expected a filter before AND', 0],
+    ['a:1 AND', 'Unexpected end of expression; expected a filter', 7],
+    ['a:1 b:2', 'Expected AND or OR, got "b"', 4],
+    ['a:1)', 'Unmatched ")"', 3],
+    ['(a:1 OR b:2', 'Missing ")" for this "("', 0],
+    ['a:', 'Expected a value after "a:"', 2],
+    ['a:or', 'Expected a value after "a:"; quote "or" to match it literally', 2],
+    ['t:"abc', 'Unterminated quoted string', 2],
+    ['x:[1 50]', 'Expected ".." between the range bounds', 5],
+    ['x:[1..high]', 'Expected a number for the range maximum, got "high"', 6],
+    ['x:[1..]', 'Expected a number for the range maximum, got "]"', 6],
+    ['x:[1..5', 'Missing "]" for this range', 2],
+    ['x:[5..1]', 'Range minimum 5 is greater than the maximum 1', 2]
+  ];
+  for (const [expression, message, position] of cases) {
+    assert.deepEqual(syntaxError(expression), { message, position }, expression);
+  }
+});
+
+test('the error message counts positions from 1 and the excerpt points at the character', () => {
+  assert.throws(() => parseFilterExpression('a:1 b:2'), (error: unknown) => {
+    assert.ok(error instanceof FilterSyntaxError);
+    assert.equal(error.message, 'Expected AND or OR, got "b" (at position 5)');
+    assert.deepEqual(error.excerpt(), ['a:1 b:2', '    ^']);
+    return true;
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Incremental sync: the diff against the previous manifest and the document keys it deletes by
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataRecord } from '../src/data/record-reader.js';
+import { Manifest, buildManifest, diffRecords, documentKey } from '../src/data/manifest.js';
+
+async function* from(records: DataRecord[]): AsyncGenerator<DataRecord> {
+  yield* records;
+}
+
+const original: DataRecord[] = [
+  { id: 1, name: 'Bulbasaur' },
+  { id: 2, name: 'Ivysaur' },
+  { id: 3, name: 'Venusaur' }
+];
+
+test('new, changed and removed records are found; unchanged ones are left alone', async () => {
+  const previous = await buildManifest('pokedex', from(original));
+  const diff = await diffRecords(previous, from([
+    { id: 1, name: 'Bulbasaur' },
+    { id: 2, name: 'Ivysaur (changed)' },
+    { id: 4, name: 'Charmander' }
+  ]));
+
+  assert.deepEqual(diff.changed, [{ id: 2, name: 'Ivysaur (changed)' }, { id: 4, name: 'Charmander' }]);
+  assert.deepEqual(diff.removed, [3]);
+  assert.equal(diff.added, 1);
+  assert.equal(diff.updated, 1);
+  assert.equal(diff.unchanged, 1);
+  assert.deepEqual(Object.keys(diff.manifest.records), ['1', '2', '4']);
+  assert.equal(diff.manifest.records['1'], previous.records['1']);
+});
+
+test('the same data gives an empty diff', async () => {
+  const previous = await buildManifest('pokedex', from(original));
+  const diff = await diffRecords(previous, from(original));
+  assert.deepEqual(diff.changed, []);
+  assert.deepEqual(diff.removed, []);
+  assert.equal(diff.unchanged, 3);
+});
+
+test('records are matched by keyField, and string keys are document keys too', async () => {
+  const records = [{ code: '10', name: 'a' }, { code: '11', name: 'b' }];
+  const previous = await buildManifest('items', from(records), 'code');
+  const diff = await diffRecords(previous, from([{ code: '11', name: 'b' }]), 'code');
+  assert.deepEqual(diff.removed, [10]);
+  assert.equal(diff.manifest.keyField, 'code');
+});
+
+test('duplicate keys are reported and the last record wins', async () => {
+  const previous = await buildManifest('pokedex', from(original));
+  const diff = await diffRecords(previous, from([...original, { id: 3, name: 'Venusaur (again)' }]));
+  assert.deepEqual(diff.duplicates, ['3']);
+  assert.equal(diff.updated, 1);
+  assert.deepEqual(diff.removed, []);
+});
+
+test('keys that are not document keys fail the diff', async () => {
+  const previous: Manifest = { dataset: 'pokedex', keyField: 'name', updatedAt: '', records: {} };
+  await assert.rejects(diffRecords(previous, from([{ name: 'Bulbasaur' }]), 'name'), /"Bulbasaur" is not a document key/);
+  await assert.rejects(buildManifest('pokedex', from([{ id: 1.5 }])), /"1.5" is not a document key/);
+  await assert.rejects(buildManifest('pokedex', from([{ name: 'x' }])), /has no "id" key/);
+});
+
+test('removed keys from an older manifest are checked too', async () => {
+  const previous: Manifest = { dataset: 'pokedex', keyField: 'id', updatedAt: '', records: { abc: 'hash' } };
+  await assert.rejects(diffRecords(previous, from([{ id: 1 }])), /"abc" is not a document key/);
+});
+
+test('documentKey accepts non-negative integers only', () => {
+  assert.equal(documentKey('0', 'id'), 0);
+  assert.equal(documentKey('42', 'id'), 42);
+  for (const key of ['-1', '1e3', '0x10', ' 7', '', '9007199254740993']) {
+    assert.throws(() => documentKey(key, 'id'), /is not a document key/, key);
+  }
+});
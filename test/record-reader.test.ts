@@ -0,0 +1,115 @@
+/**
+ * Streaming readers: JSON array and CSV splitting, whatever the chunk boundaries
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { CsvSplitter, DataRecord, JsonArraySplitter, readRecords } from '../src/data/record-reader.js';
+
+/**
+ * Feed the chunks to a fresh splitter and collect everything it returns
+ */
+function splitJson(chunks: string[]): string[] {
+  const splitter = new JsonArraySplitter();
+  const elements = chunks.flatMap(chunk => splitter.push(chunk));
+  splitter.end();
+  return elements;
+}
+
+function splitCsv(chunks: string[], delimiter = ','): string[][] {
+  const splitter = new CsvSplitter(delimiter);
+  return [...chunks.flatMap(chunk => splitter.push(chunk)), ...splitter.end()];
+}
+
+/**
+ * Every way of cutting `text` in two, plus one character per chunk
+ */
+function chunkings(text: string): string[][] {
+  const cuts = Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)]);
+  return [...cuts, [...text]];
+}
+
+const json = '\uFEFF [ {"title":"a, [b]","note":"say \\"hi\\"\\\\"} ,\n{"tags":["x","y"],"n":{"m":[1,2]}}, 42 ]\n';
+
+test('JSON array elements are split out, with brackets and commas inside strings left alone', () => {
+  assert.deepEqual(splitJson([json]), [
+    '{"title":"a, [b]","note":"say \\"hi\\"\\\\"}',
+    '{"tags":["x","y"],"n":{"m":[1,2]}}',
+    '42'
+  ]);
+});
+
+test('JSON array elements split across chunks come out the same', () => {
+  const expected = splitJson([json]);
+  for (const chunks of chunkings(json)) {
+    assert.deepEqual(splitJson(chunks), expected, JSON.stringify(chunks));
+  }
+});
+
+test('malformed JSON arrays are rejected', () => {
+  assert.throws(() => splitJson(['{"a":1}']), /Expected a JSON array, found "\{" at position 1/);
+  assert.throws(() => splitJson(['[1,,2]']), /Unexpected "," at position 4/);
+  assert.throws(() => splitJson(['[1] x']), /Unexpected content after end of JSON array at position 5/);
+  assert.throws(() => splitJson(['[{"a":"]"}']), /JSON array is not closed/);
+  assert.deepEqual(splitJson(['[]']), []);
+});
+
+const csv = 'id,title,notes\r\n1,"Hello, world","He said ""hi"""\r\n2,"multi\nline",\n\n3,x,""';
+
+test('CSV fields may be quoted, contain delimiters, line breaks and doubled quotes', () => {
+  assert.deepEqual(splitCsv([csv]), [
+    ['id', 'title', 'notes'],
+    ['1', 'Hello, world', 'He said "hi"'],
+    ['2', 'multi\nline', ''],
+    ['3', 'x', '']
+  ]);
+});
+
+test('CSV rows split across chunks come out the same, including between doubled quotes and \\r\\n', () => {
+  const expected = splitCsv([csv]);
+  for (const chunks of chunkings(csv)) {
+    assert.deepEqual(splitCsv(chunks), expected, JSON.stringify(chunks));
+  }
+});
+
+test('a quote inside an unquoted field is kept as text', () => {
+  assert.deepEqual(splitCsv(['a,5" screen,"x"y\n']), [['a', '5" screen', 'xy']]);
+});
+
+test('CSV with another delimiter', () => {
+  assert.deepEqual(splitCsv(['a\tb\n"x\ty"\tz\n'], '\t'), [['a', 'b'], ['x\ty', 'z']]);
+});
+
+test('an unclosed quoted CSV field is rejected at the end of the file', () => {
+  assert.throws(() => splitCsv(['id,title\n1,"abc']), /quoted CSV field is not closed/);
+  assert.throws(() => splitCsv(['id,title\n1,"abc\n']), /quoted CSV field is not closed/);
+});
+
+async function collect(records: AsyncIterable<DataRecord>): Promise<DataRecord[]> {
+  const result: DataRecord[] = [];
+  for await (const record of records) {
+    result.push(record);
+  }
+  return result;
+}
+
+test('CSV files are read with the header as keys and column type hints applied', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indx-reader-'));
+  try {
+    const file = path.join(dir, 'items.csv.gz');
+    fs.writeFileSync(file, zlib.gzipSync('\uFEFFid, name ,active\n1,"Bulbasaur, the seed",yes\n2,Ivysaur,no\n'));
+    assert.deepEqual(await collect(readRecords(file, { columns: { id: 'integer', active: 'boolean' } })), [
+      { id: 1, name: 'Bulbasaur, the seed', active: true },
+      { id: 2, name: 'Ivysaur', active: false }
+    ]);
+
+    const ragged = path.join(dir, 'ragged.csv');
+    fs.writeFileSync(ragged, 'id,name\n1,a\n2,b,c\n');
+    await assert.rejects(collect(readRecords(ragged)), /Row 2 in .*ragged\.csv has 3 columns, expected 2/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
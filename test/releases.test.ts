@@ -0,0 +1,85 @@
+/**
+ * Blue/green release pointers: retention and rollback targets
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReleasePointer, promoteVersion, rollBackTo, rollbackTarget } from '../src/data/releases.js';
+
+function promote(pointer: ReleasePointer | null, name: string, retain: number): { pointer: ReleasePointer; expired: string[] } {
+  return promoteVersion(pointer, 'tmdb', { name, promotedAt: '2026-10-19T12:00:00.000Z', recordCount: 10 }, retain);
+}
+
+const names = (pointer: ReleasePointer) => pointer.versions.map(v => v.name);
+
+test('the oldest versions beyond the retention count expire', () => {
+  let pointer = promote(null, 'a', 2).pointer;
+  pointer = promote(pointer, 'b', 2).pointer;
+  const promotion = promote(pointer, 'c', 2);
+
+  assert.deepEqual(promotion.expired, ['a']);
+  assert.deepEqual(names(promotion.pointer), ['b', 'c']);
+  assert.equal(promotion.pointer.current, 'c');
+});
+
+test('a load after a rollback keeps the version that was rolled back to', () => {
+  let pointer = promote(null, 'good', 2).pointer;
+  pointer = promote(pointer, 'bad', 2).pointer;
+  rollBackTo(pointer, rollbackTarget(pointer)!.name);
+  assert.equal(pointer.current, 'good');
+
+  const promotion = promote(pointer, 'next', 2);
+  assert.deepEqual(promotion.expired, ['bad']);
+  assert.deepEqual(names(promotion.pointer), ['good', 'next']);
+  // A second rollback is still possible
+  assert.equal(rollbackTarget(promotion.pointer)?.name, 'good');
+});
+
+test('rolled-back versions expire before older ones', () => {
+  let pointer = promote(null, 'a', 3).pointer;
+  pointer = promote(pointer, 'b', 3).pointer;
+  pointer = promote(pointer, 'c', 3).pointer;
+  rollBackTo(pointer, 'b');
+
+  const promotion = promote(pointer, 'd', 3);
+  assert.deepEqual(promotion.expired, ['c']);
+  assert.deepEqual(names(promotion.pointer), ['a', 'b', 'd']);
+});
+
+test('with retain 1 only the new version is kept', () => {
+  let pointer = promote(null, 'a', 1).pointer;
+  const promotion = promote(pointer, 'b', 1);
+  assert.deepEqual(promotion.expired, ['a']);
+  assert.deepEqual(names(promotion.pointer), ['b']);
+  pointer = promotion.pointer;
+  assert.equal(rollbackTarget(pointer), null);
+});
+
+test('promoting a version again moves it to the end instead of duplicating it', () => {
+  let pointer = promote(null, 'a', 3).pointer;
+  pointer = promote(pointer, 'b', 3).pointer;
+  const promotion = promote(pointer, 'a', 3);
+  assert.deepEqual(promotion.expired, []);
+  assert.deepEqual(names(promotion.pointer), ['b', 'a']);
+});
+
+test('rollbackTarget picks the newest earlier version that was not rolled back', () => {
+  let pointer = promote(null, 'a', 5).pointer;
+  pointer = promote(pointer, 'b', 5).pointer;
+  pointer = promote(pointer, 'c', 5).pointer;
+
+  assert.equal(rollbackTarget(pointer)?.name, 'b');
+  rollBackTo(pointer, 'b');
+  assert.deepEqual(pointer.versions.filter(v => v.rolledBack).map(v => v.name), ['c']);
+  assert.equal(rollbackTarget(pointer)?.name, 'a');
+  rollBackTo(pointer, 'a');
+  assert.equal(rollbackTarget(pointer), null);
+});
+
+test('rolling back to a rolled-back version clears its mark', () => {
+  let pointer = promote(null, 'a', 5).pointer;
+  pointer = promote(pointer, 'b', 5).pointer;
+  rollBackTo(pointer, 'a');
+  rollBackTo(pointer, 'b');
+  assert.equal(pointer.current, 'b');
+  assert.deepEqual(pointer.versions.map(v => [v.name, Boolean(v.rolledBack)]), [['a', true], ['b', false]]);
+});
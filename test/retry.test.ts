@@ -0,0 +1,130 @@
+/**
+ * Retry policy: which failures are retried, how long to wait, and which requests are never replayed
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { IndxClient } from '../src/api/indx-client.js';
+import { IndxAuthError, IndxNetworkError, IndxNotFoundError, IndxServerError } from '../src/api/errors.js';
+import { RetryEvent, isTransientError, maxAttempts, retryDelay } from '../src/api/retry.js';
+
+const route = 'api/GetStatus/pokedex';
+
+test('transient statuses and network errors are retryable; client errors are not', () => {
+  for (const status of [408, 429, 500, 502, 503, 504]) {
+    assert.equal(isTransientError(new IndxServerError('failed', route, status)), true, String(status));
+  }
+  assert.equal(isTransientError(new IndxServerError('failed', route, 400)), false);
+  assert.equal(isTransientError(new IndxServerError('failed', route, 501)), false);
+  assert.equal(isTransientError(new IndxAuthError('failed', route, 401)), false);
+  assert.equal(isTransientError(new IndxNotFoundError('failed', route, 404)), false);
+
+  assert.equal(isTransientError(new IndxNetworkError('failed', route, 'ECONNRESET')), true);
+  assert.equal(isTransientError(new IndxNetworkError('failed', route, 'ETIMEDOUT')), true);
+  assert.equal(isTransientError(new IndxNetworkError('failed', route, 'ENOTFOUND')), false);
+  assert.equal(isTransientError(new IndxNetworkError('failed', route, 'CERT_HAS_EXPIRED')), false);
+  assert.equal(isTransientError(new IndxNetworkError('failed', route)), false);
+});
+
+test('the retryable statuses can be configured', () => {
+  const options = { retryStatuses: [409] };
+  assert.equal(isTransientError(new IndxServerError('failed', route, 409), options), true);
+  assert.equal(isTransientError(new IndxServerError('failed', route, 503), options), false);
+});
+
+test('the delay doubles per attempt with equal jitter, up to the maximum', () => {
+  const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+  for (let i = 0; i < 50; i++) {
+    for (const [attempt, full] of [[1, 100], [2, 200], [3, 400], [10, 1000]]) {
+      const delay = retryDelay(attempt, options);
+      assert.ok(delay >= full / 2 && delay <= full, `attempt ${attempt}: ${delay}`);
+    }
+  }
+});
+
+test('Retry-After overrides the backoff, within the maximum', () => {
+  assert.equal(retryDelay(1, { maxDelayMs: 5000 }, 2), 2000);
+  assert.equal(retryDelay(1, { maxDelayMs: 5000 }, 0), 0);
+  assert.equal(retryDelay(1, { maxDelayMs: 5000 }, 60), 5000);
+});
+
+test('attempts are the first one plus the retries', () => {
+  assert.equal(maxAttempts(), 4);
+  assert.equal(maxAttempts({ retries: 2 }), 3);
+  assert.equal(maxAttempts({ retries: 0 }), 1);
+  assert.equal(maxAttempts({ retries: -1 }), 1);
+});
+
+/**
+ * Server answering every request with the next status in `statuses` (repeating the last) and counting requests
+ */
+async function startServer(statuses: number[]): Promise<{ uri: string; requests: () => number; close: () => Promise<void> }> {
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const status = statuses[Math.min(requests++, statuses.length - 1)];
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(status === 200 ? { systemState: 4 } : 'failed'));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    uri: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+    requests: () => requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * Run `call` against a server answering with `statuses`, recording the retry callbacks
+ */
+async function withServer(
+  statuses: number[],
+  call: (client: IndxClient) => Promise<unknown>
+): Promise<{ outcome: unknown; requests: number; retries: RetryEvent[]; notRetried: RetryEvent[] }> {
+  const server = await startServer(statuses);
+  try {
+    const retries: RetryEvent[] = [];
+    const notRetried: RetryEvent[] = [];
+    const client = new IndxClient(axios.create({ baseURL: server.uri }), {
+      retry: { retries: 2, baseDelayMs: 1, onRetry: event => retries.push(event), onNotRetried: event => notRetried.push(event) }
+    });
+    const outcome = await call(client).catch(error => error);
+    return { outcome, requests: server.requests(), retries, notRetried };
+  } finally {
+    await server.close();
+  }
+}
+
+test('an idempotent request is retried after transient failures until it succeeds', async () => {
+  const result = await withServer([503, 502, 200], client => client.getStatus('pokedex'));
+  assert.deepEqual(result.outcome, { systemState: 4 });
+  assert.equal(result.requests, 3);
+  assert.deepEqual(result.retries.map(e => [e.attempt, e.maxAttempts, e.error.status]), [[1, 3, 503], [2, 3, 502]]);
+});
+
+test('retries stop after the configured number and the last error is thrown', async () => {
+  const result = await withServer([503], client => client.getStatus('pokedex'));
+  assert.ok(result.outcome instanceof IndxServerError);
+  assert.equal(result.outcome.status, 503);
+  assert.equal(result.requests, 3);
+});
+
+test('a non-transient failure is not retried', async () => {
+  const result = await withServer([400, 200], client => client.getStatus('pokedex'));
+  assert.ok(result.outcome instanceof IndxServerError);
+  assert.equal(result.outcome.status, 400);
+  assert.equal(result.requests, 1);
+  assert.deepEqual(result.retries, []);
+  assert.deepEqual(result.notRetried, []);
+});
+
+test('a non-idempotent request is not replayed after a transient failure', async () => {
+  const result = await withServer([503, 200], client => client.indexDataSet('pokedex'));
+  assert.ok(result.outcome instanceof IndxServerError);
+  assert.equal(result.requests, 1);
+  assert.deepEqual(result.retries, []);
+  assert.deepEqual(result.notRetried.map(e => [e.route, e.attempt]), [['api/IndexDataSet/pokedex', 1]]);
+});
@@ -0,0 +1,64 @@
+/**
+ * Value conversions: list parsing, type coercion and CSV column type detection
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceValue, inferColumnTypes, parseArrayValue } from '../src/data/values.js';
+
+async function* from(records: Record<string, unknown>[]): AsyncGenerator<Record<string, unknown>> {
+  yield* records;
+}
+
+test('list-like strings become arrays', () => {
+  assert.deepEqual(parseArrayValue('["Action", "Drama"]'), ['Action', 'Drama']);
+  assert.deepEqual(parseArrayValue("['Action', 'Drama']"), ['Action', 'Drama']);
+  assert.deepEqual(parseArrayValue('Action, Drama ,Comedy'), ['Action', 'Drama', 'Comedy']);
+  assert.deepEqual(parseArrayValue(`['it\\'s', "x, y", ]`), ["it's", 'x, y']);
+  assert.deepEqual(parseArrayValue('[]'), []);
+  assert.deepEqual(parseArrayValue(''), []);
+});
+
+test('values that are not strings are left as they are', () => {
+  const list = ['a'];
+  assert.equal(parseArrayValue(list), list);
+  assert.equal(parseArrayValue(5), 5);
+  assert.equal(parseArrayValue(null), null);
+});
+
+test('numbers and integers', () => {
+  assert.equal(coerceValue('3.5', 'number'), 3.5);
+  assert.equal(coerceValue(' 42 ', 'number'), 42);
+  assert.equal(coerceValue('7.9', 'integer'), 7);
+  assert.equal(coerceValue(-2.5, 'integer'), -2);
+  for (const value of ['', ' ', 'abc', 'Infinity', true, {}]) {
+    assert.equal(coerceValue(value, 'number'), null, String(value));
+  }
+});
+
+test('booleans', () => {
+  for (const value of ['true', 'Yes', 'y', '1', 1, true]) {
+    assert.equal(coerceValue(value, 'boolean'), true, String(value));
+  }
+  for (const value of ['false', 'NO', 'n', '0', '', 0, false]) {
+    assert.equal(coerceValue(value, 'boolean'), false, String(value));
+  }
+  assert.equal(coerceValue('maybe', 'boolean'), null);
+});
+
+test('strings, and missing values', () => {
+  assert.equal(coerceValue(5, 'string'), '5');
+  assert.equal(coerceValue({ a: [1] }, 'string'), '{"a":[1]}');
+  for (const type of ['string', 'number', 'integer', 'boolean'] as const) {
+    assert.equal(coerceValue(null, type), null);
+    assert.equal(coerceValue(undefined, type), null);
+  }
+});
+
+test('column types are the narrowest type every non-empty value parses as', async () => {
+  const columns = await inferColumnTypes(from([
+    { id: '1', price: '1.5', active: 'true', name: 'a', year: '' },
+    { id: '-2', price: '2', active: 'FALSE', name: '1', year: '1999' },
+    { id: ' 3 ', price: '1e3', active: '', name: 'c', year: '2001' }
+  ]));
+  assert.deepEqual(columns, { id: 'integer', price: 'number', active: 'boolean', year: 'integer' });
+});
@@ -0,0 +1,57 @@
+/**
+ * Status polling: failure states end the wait with an error, even when the condition accepts them
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SystemState, SystemStatus } from '@indxsearch/indx-types';
+import { IndxClient } from '../src/api/indx-client.js';
+import { IndxStateError } from '../src/api/errors.js';
+import { waitForState } from '../src/api/wait-for-state.js';
+
+/**
+ * Client whose GetStatus reports the given states in turn, repeating the last one
+ */
+function statusClient(states: unknown[]): IndxClient {
+  let polls = 0;
+  return {
+    route: 'api',
+    getStatus: async () => ({ systemState: states[Math.min(polls++, states.length - 1)] }) as SystemStatus
+  } as unknown as IndxClient;
+}
+
+const options = { intervalMs: 1, timeoutMs: 1000 };
+const loaded = (status: SystemStatus) => status.systemState !== SystemState.Loading;
+
+test('an Error state after the upload rejects the "loaded" wait with the failure', async () => {
+  await assert.rejects(
+    waitForState(statusClient([SystemState.Loading, 'Error']), 'pokedex', 'loaded', loaded, options),
+    (error: unknown) => {
+      assert.ok(error instanceof IndxStateError);
+      assert.equal(error.reason, 'failed');
+      assert.equal(error.state, 'Error');
+      return true;
+    }
+  );
+});
+
+test('the wait ends once the condition holds', async () => {
+  const result = await waitForState(statusClient([SystemState.Loading, SystemState.Loaded]), 'pokedex', 'loaded', loaded, options);
+  assert.equal(result.status.systemState, SystemState.Loaded);
+  assert.equal(result.polls, 2);
+});
+
+test('failure states are compared case-insensitively and can be configured', async () => {
+  await assert.rejects(
+    waitForState(statusClient(['corrupt']), 'pokedex', 'loaded', loaded, options),
+    IndxStateError
+  );
+  const result = await waitForState(statusClient(['Error']), 'pokedex', 'loaded', loaded, { ...options, failureStates: [] });
+  assert.equal(result.status.systemState, 'Error');
+});
+
+test('a state that never changes times out', async () => {
+  await assert.rejects(
+    waitForState(statusClient([SystemState.Loading]), 'pokedex', 'loaded', loaded, { intervalMs: 5, timeoutMs: 20 }),
+    (error: unknown) => error instanceof IndxStateError && error.reason === 'timeout'
+  );
+});